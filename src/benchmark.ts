@@ -0,0 +1,151 @@
+import * as THREE from 'three';
+import { World } from './ecs/World';
+import { Entity } from './ecs/Entity';
+import { TransformComponent } from './ecs/components/TransformComponent';
+import { ResourceComponent } from './ecs/components/ResourceComponent';
+import { SeededRandom } from './core/Random';
+
+// ================================================================
+// Spatial index benchmark
+// Usage: npm run benchmark -- [queries]
+// Times radius and nearest queries through World.spatial against
+// linear scans over World queries, at growing entity counts spread
+// at a constant density (bigger armies on bigger maps).
+// ================================================================
+
+const queries = Number(process.argv[2] ?? 1000);
+
+if (!Number.isInteger(queries) || queries <= 0) {
+    console.error(`Invalid query count: ${process.argv[2]}`);
+    process.exit(1);
+}
+
+const ENTITY_COUNTS = [500, 1000, 2000, 5000, 10000];
+// One entity per this many square units
+const AREA_PER_ENTITY = 16;
+const QUERY_RADIUS = 10;
+const RESOURCE_SHARE = 0.1;
+// Share of entities that move between query batches
+const MOVING_SHARE = 0.5;
+
+interface Timings {
+    radiusLinear: number;
+    radiusSpatial: number;
+    nearestLinear: number;
+    nearestSpatial: number;
+}
+
+function populate(world: World, count: number, extent: number, random: SeededRandom): Entity[] {
+    const entities: Entity[] = [];
+    for (let i = 0; i < count; i++) {
+        const entity = world.createEntity();
+        const position = new THREE.Vector3(random.range(-extent, extent), 0, random.range(-extent, extent));
+        entity.addComponent(new TransformComponent(position));
+        if (random.chance(RESOURCE_SHARE)) {
+            entity.addComponent(new ResourceComponent('gold', 100));
+        }
+        entities.push(entity);
+    }
+    return entities;
+}
+
+function radiusLinear(world: World, x: number, z: number): number {
+    let found = 0;
+    for (const entity of world.queryEntities(TransformComponent)) {
+        const position = entity.requireComponent(TransformComponent).position;
+        const dx = position.x - x;
+        const dz = position.z - z;
+        if (dx * dx + dz * dz < QUERY_RADIUS * QUERY_RADIUS) found++;
+    }
+    return found;
+}
+
+function nearestLinear(world: World, x: number, z: number): Entity | null {
+    let nearest: Entity | null = null;
+    let nearestDistance = Infinity;
+    for (const entity of world.queryEntities(ResourceComponent, TransformComponent)) {
+        const position = entity.requireComponent(TransformComponent).position;
+        const distance = Math.hypot(position.x - x, position.z - z);
+        if (distance < nearestDistance) {
+            nearestDistance = distance;
+            nearest = entity;
+        }
+    }
+    return nearest;
+}
+
+function time(run: () => void): number {
+    const started = performance.now();
+    run();
+    return performance.now() - started;
+}
+
+function measure(count: number): Timings {
+    const world = new World();
+    const random = new SeededRandom(count);
+    const extent = Math.sqrt(count * AREA_PER_ENTITY) / 2;
+    const entities = populate(world, count, extent, random);
+    const points = Array.from({ length: queries }, () => ({
+        x: random.range(-extent, extent),
+        z: random.range(-extent, extent)
+    }));
+    const isResource = (entity: Entity) => entity.hasComponent(ResourceComponent);
+
+    // Moving entities makes the index rehash before its first query
+    const moveSome = () => {
+        for (let i = 0; i < count * MOVING_SHARE; i++) {
+            const transform = entities[i].requireComponent(TransformComponent);
+            const { x, y, z } = transform.position;
+            transform.setPosition(x + random.range(-1, 1), y, z + random.range(-1, 1));
+        }
+    };
+
+    let mismatches = 0;
+    moveSome();
+    const radiusSpatial = time(() => points.forEach(p => world.spatial.queryRadius(p.x, p.z, QUERY_RADIUS)));
+    const radiusLinearTime = time(() => points.forEach(p => radiusLinear(world, p.x, p.z)));
+    moveSome();
+    const nearestSpatial = time(() => points.forEach(p => world.spatial.nearest(p.x, p.z, isResource)));
+    const nearestLinearTime = time(() => points.forEach(p => nearestLinear(world, p.x, p.z)));
+
+    // Both approaches must agree
+    for (const p of points.slice(0, 50)) {
+        if (world.spatial.queryRadius(p.x, p.z, QUERY_RADIUS).length !== radiusLinear(world, p.x, p.z)) mismatches++;
+        const expected = nearestLinear(world, p.x, p.z);
+        const actual = world.spatial.nearest(p.x, p.z, isResource);
+        if (expected && actual && expected.id !== actual.id) {
+            const distanceTo = (entity: Entity) => {
+                const position = entity.requireComponent(TransformComponent).position;
+                return Math.hypot(position.x - p.x, position.z - p.z);
+            };
+            // Equally distant candidates may be picked differently
+            if (distanceTo(expected) !== distanceTo(actual)) mismatches++;
+        }
+    }
+    if (mismatches > 0) {
+        console.error(`${count} entities: ${mismatches} results differ from the linear scan`);
+        process.exitCode = 1;
+    }
+
+    return {
+        radiusLinear: radiusLinearTime,
+        radiusSpatial,
+        nearestLinear: nearestLinearTime,
+        nearestSpatial
+    };
+}
+
+// Let the JIT settle so the first row is comparable
+measure(ENTITY_COUNTS[0]);
+
+const format = (ms: number) => `${ms.toFixed(1)}ms`.padStart(10);
+
+console.log(`${queries} queries per test, radius ${QUERY_RADIUS}, ${MOVING_SHARE * 100}% of entities moving between tests`);
+console.log(`${'entities'.padStart(8)} | ${'radius scan'.padStart(11)} ${'hash'.padStart(10)} | ${'nearest scan'.padStart(12)} ${'hash'.padStart(10)}`);
+for (const count of ENTITY_COUNTS) {
+    const t = measure(count);
+    console.log(
+        `${String(count).padStart(8)} | ${format(t.radiusLinear).padStart(11)} ${format(t.radiusSpatial)} | ` +
+        `${format(t.nearestLinear).padStart(12)} ${format(t.nearestSpatial)}`
+    );
+}
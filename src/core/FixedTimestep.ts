@@ -0,0 +1,97 @@
+/**
+ * Options for the fixed-timestep driver
+ */
+export interface FixedTimestepOptions {
+  /** Simulation ticks per second */
+  tickRate?: number;
+  /** Maximum ticks run for a single frame before dropping the backlog */
+  maxTicksPerFrame?: number;
+}
+
+/**
+ * FixedTimestep
+ * Accumulates variable frame time and converts it into whole simulation
+ * ticks of constant length. The leftover fraction of a tick is exposed as
+ * an interpolation alpha so rendering can blend between the previous and
+ * current simulation states.
+ */
+export class FixedTimestep {
+  public readonly tickRate: number;
+  public readonly tickDuration: number;
+  public readonly maxTicksPerFrame: number;
+
+  private accumulator: number = 0;
+  private _tick: number = 0;
+  private _droppedTime: number = 0;
+
+  constructor(options: FixedTimestepOptions = {}) {
+    this.tickRate = options.tickRate ?? 20;
+    this.tickDuration = 1 / this.tickRate;
+    this.maxTicksPerFrame = options.maxTicksPerFrame ?? 5;
+  }
+
+  /**
+   * Advance by a frame's elapsed time and run the ticks that became due
+   * @param frameSeconds Real time since the previous frame, in seconds
+   * @param onTick Called once per tick with the fixed tick duration in seconds
+   * @returns Number of ticks that ran
+   */
+  advance(frameSeconds: number, onTick: (tickDuration: number, tick: number) => void): number {
+    this.accumulator += Math.max(0, frameSeconds);
+
+    let ticks = 0;
+    while (this.accumulator >= this.tickDuration && ticks < this.maxTicksPerFrame) {
+      this.accumulator -= this.tickDuration;
+      onTick(this.tickDuration, this._tick);
+      this._tick++;
+      ticks++;
+    }
+
+    // Too far behind (e.g. the tab was in the background): drop the backlog
+    // instead of spiralling, keeping only the partial tick for interpolation
+    if (this.accumulator >= this.tickDuration) {
+      const keep = this.accumulator % this.tickDuration;
+      this._droppedTime += this.accumulator - keep;
+      this.accumulator = keep;
+    }
+
+    return ticks;
+  }
+
+  /**
+   * Fraction of the next tick already elapsed, in [0, 1)
+   */
+  get alpha(): number {
+    return this.accumulator / this.tickDuration;
+  }
+
+  /**
+   * Number of ticks run so far
+   */
+  get tick(): number {
+    return this._tick;
+  }
+
+  /**
+   * Simulated time in seconds
+   */
+  get simulationTime(): number {
+    return this._tick * this.tickDuration;
+  }
+
+  /**
+   * Real time discarded because the catch-up cap was hit, in seconds
+   */
+  get droppedTime(): number {
+    return this._droppedTime;
+  }
+
+  /**
+   * Reset tick count and accumulated time
+   */
+  reset(): void {
+    this.accumulator = 0;
+    this._tick = 0;
+    this._droppedTime = 0;
+  }
+}
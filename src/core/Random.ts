@@ -0,0 +1,147 @@
+/**
+ * Serializable state of a RandomService
+ */
+export interface RandomState {
+  seed: number;
+  /** Current generator state of every stream drawn from so far */
+  streams: Record<string, number>;
+}
+
+/**
+ * Well-known stream names. Any name works; separate streams keep one
+ * feature's draws from shifting another's sequence.
+ */
+export const RandomStreams = {
+  MAP: 'map',
+  COMBAT: 'combat',
+  AI: 'ai',
+} as const;
+
+/**
+ * SeededRandom
+ * Small deterministic PRNG (mulberry32). Its whole state is one 32-bit
+ * integer, so it is cheap to save and restore.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(state: number) {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length)];
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * RandomService
+ * The only source of randomness gameplay code may use. Every named stream
+ * is derived from the service's seed, so the same seed and the same draws
+ * give the same results in replays and on every multiplayer peer.
+ * Never use Math.random() in simulation code.
+ */
+export class RandomService {
+  private _seed: number;
+  private streams: Map<string, SeededRandom> = new Map();
+
+  constructor(seed: number = 0) {
+    this._seed = seed >>> 0;
+  }
+
+  get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Get a named stream, creating it from the seed on first use
+   */
+  stream(name: string): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandom(deriveStreamState(this._seed, name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Start over from a new seed
+   */
+  reset(seed: number): void {
+    this._seed = seed >>> 0;
+    this.streams.clear();
+  }
+
+  getState(): RandomState {
+    const streams: Record<string, number> = {};
+    for (const [name, stream] of this.streams) {
+      streams[name] = stream.getState();
+    }
+    return { seed: this._seed, streams };
+  }
+
+  restore(state: RandomState): void {
+    this.reset(state.seed);
+    for (const [name, value] of Object.entries(state.streams)) {
+      this.stream(name).setState(value);
+    }
+  }
+}
+
+/**
+ * Mix the seed with the stream name (FNV-1a, then a splitmix32 finalizer)
+ */
+function deriveStreamState(seed: number, name: string): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
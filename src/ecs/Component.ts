@@ -1,36 +1,42 @@
-/**
- * Component Types Enum
- * Defines all available component types in the ECS
- */
-export enum ComponentType {
-  TRANSFORM = 'transform',
-  RENDERABLE = 'renderable',
-  SELECTABLE = 'selectable',
-  MOVEMENT = 'movement',
-  HEALTH = 'health',
-  UNIT = 'unit',
-  RESOURCE = 'resource',
-  BUILDING = 'building',
-}
+import type { Entity } from './Entity';
 
 /**
- * Base Component Interface
- * All components must implement this interface
+ * Component class constructor
+ * Every component class declares its registry key once, as a static TYPE
  */
-export interface Component {
-  type: ComponentType;
-  enabled: boolean;
+export interface ComponentClass<T extends BaseComponent = BaseComponent> {
+  readonly TYPE: string;
+  // never[] accepts any parameter list while letting no caller pass arguments blindly
+  new (...args: never[]): T;
 }
 
 /**
  * Base Component class with common functionality
+ * All components must extend this class
  */
-export abstract class BaseComponent implements Component {
-  abstract type: ComponentType;
+export abstract class BaseComponent {
   enabled: boolean = true;
 
   constructor() {}
 
+  /**
+   * Registry key of this component's class
+   */
+  get componentType(): string {
+    return (this.constructor as ComponentClass).TYPE;
+  }
+
+  /**
+   * Called after this component is attached to an entity
+   */
+  onAdded(_entity: Entity): void {}
+
+  /**
+   * Called after this component is detached from an entity,
+   * including when the entity itself is destroyed
+   */
+  onRemoved(_entity: Entity): void {}
+
   enable(): void {
     this.enabled = true;
   }
@@ -40,6 +46,4 @@ export abstract class BaseComponent implements Component {
   }
 }
 
-// Re-export everything explicitly
-export type { Component as ComponentInterface };
 export { BaseComponent as Component };
@@ -0,0 +1,73 @@
+import { BaseComponent, ComponentClass } from './Component';
+
+/**
+ * Error thrown when the component registry is used inconsistently
+ */
+export class ComponentRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComponentRegistryError';
+  }
+}
+
+/**
+ * ComponentRegistry
+ * Single source of truth mapping component keys to component classes.
+ * Each component module registers its class once when it is loaded.
+ */
+export class ComponentRegistry {
+  private static classes: Map<string, ComponentClass> = new Map();
+
+  /**
+   * Register a component class under its static TYPE key
+   * @throws ComponentRegistryError if another class already uses the key
+   */
+  static register<T extends BaseComponent>(componentClass: ComponentClass<T>): ComponentClass<T> {
+    const key = componentClass.TYPE;
+    if (!key) {
+      throw new ComponentRegistryError(`Component class ${componentClass.name} has no static TYPE`);
+    }
+
+    const existing = ComponentRegistry.classes.get(key);
+    if (existing && existing !== componentClass) {
+      throw new ComponentRegistryError(
+        `Component key '${key}' is already registered by ${existing.name}, cannot register ${componentClass.name}`
+      );
+    }
+
+    ComponentRegistry.classes.set(key, componentClass);
+    return componentClass;
+  }
+
+  /**
+   * Check whether a class is the registered owner of its key
+   */
+  static isRegistered(componentClass: ComponentClass): boolean {
+    return ComponentRegistry.classes.get(componentClass.TYPE) === componentClass;
+  }
+
+  /**
+   * Throw unless a class is the registered owner of its key
+   */
+  static assertRegistered(componentClass: ComponentClass): void {
+    if (!ComponentRegistry.isRegistered(componentClass)) {
+      throw new ComponentRegistryError(
+        `Component class ${componentClass.name} ('${componentClass.TYPE}') is not registered`
+      );
+    }
+  }
+
+  /**
+   * Look up a component class by key
+   */
+  static get(key: string): ComponentClass | undefined {
+    return ComponentRegistry.classes.get(key);
+  }
+
+  /**
+   * Get all registered component keys
+   */
+  static getKeys(): string[] {
+    return Array.from(ComponentRegistry.classes.keys());
+  }
+}
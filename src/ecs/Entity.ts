@@ -1,56 +1,100 @@
-import { Component, ComponentType } from './Component';
+import { Component, ComponentClass } from './Component';
+import { ComponentRegistry, ComponentRegistryError } from './ComponentRegistry';
+import { EntityId } from './EntityId';
+
+/**
+ * Receives structural changes of an entity (implemented by World)
+ */
+export interface EntityObserver {
+  onComponentAdded(entity: Entity, component: Component): void;
+  onComponentRemoved(entity: Entity, component: Component): void;
+  onEnabledChanged(entity: Entity): void;
+}
 
 /**
  * Entity class
  * Represents a game object that can have components attached
  */
 export class Entity {
-  private static nextId: number = 0;
-  
-  public readonly id: number;
-  private components: Map<ComponentType, Component>;
+  public readonly id: EntityId;
+  private components: Map<string, Component>;
   private _enabled: boolean;
+  private observer: EntityObserver | null;
 
-  constructor() {
-    this.id = Entity.nextId++;
+  constructor(id: EntityId, observer: EntityObserver | null = null) {
+    this.id = id;
     this.components = new Map();
     this._enabled = true;
+    this.observer = observer;
   }
 
   /**
-   * Add a component to this entity
+   * Set the observer notified about structural changes (used by World)
+   */
+  setObserver(observer: EntityObserver | null): void {
+    this.observer = observer;
+  }
+
+  /**
+   * Add a component to this entity.
+   * A component already stored under the same key is removed first.
    */
   addComponent(component: Component): this {
-    this.components.set(component.type, component);
+    ComponentRegistry.assertRegistered(component.constructor as ComponentClass);
+
+    const previous = this.components.get(component.componentType);
+    if (previous === component) return this;
+    if (previous) {
+      this.detachComponent(previous);
+    }
+
+    this.components.set(component.componentType, component);
+    component.onAdded(this);
+    this.observer?.onComponentAdded(this, component);
     return this;
   }
 
   /**
-   * Get a component by type
+   * Get a component by class
+   */
+  getComponent<T extends Component>(type: ComponentClass<T>): T | undefined {
+    return this.components.get(type.TYPE) as T | undefined;
+  }
+
+  /**
+   * Get a component by class, throwing if the entity does not have it
    */
-  getComponent<T extends Component>(type: ComponentType): T | undefined {
-    return this.components.get(type) as T | undefined;
+  requireComponent<T extends Component>(type: ComponentClass<T>): T {
+    const component = this.components.get(type.TYPE);
+    if (!component) {
+      throw new ComponentRegistryError(`Entity ${this.id} has no '${type.TYPE}' component`);
+    }
+    return component as T;
   }
 
   /**
    * Check if entity has a component
    */
-  hasComponent(type: ComponentType): boolean {
-    return this.components.has(type);
+  hasComponent(type: ComponentClass): boolean {
+    return this.components.has(type.TYPE);
   }
 
   /**
    * Check if entity has all specified components
    */
-  hasComponents(...types: ComponentType[]): boolean {
-    return types.every(type => this.components.has(type));
+  hasComponents(...types: ComponentClass[]): boolean {
+    return types.every(type => this.components.has(type.TYPE));
   }
 
   /**
    * Remove a component from this entity
    */
-  removeComponent(type: ComponentType): boolean {
-    return this.components.delete(type);
+  removeComponent(type: ComponentClass): boolean {
+    const component = this.components.get(type.TYPE);
+    if (!component) return false;
+
+    this.detachComponent(component);
+    return true;
   }
 
   /**
@@ -63,7 +107,7 @@ export class Entity {
   /**
    * Get all component types
    */
-  getComponentTypes(): ComponentType[] {
+  getComponentTypes(): string[] {
     return Array.from(this.components.keys());
   }
 
@@ -71,14 +115,18 @@ export class Entity {
    * Enable this entity
    */
   enable(): void {
+    if (this._enabled) return;
     this._enabled = true;
+    this.observer?.onEnabledChanged(this);
   }
 
   /**
    * Disable this entity
    */
   disable(): void {
+    if (!this._enabled) return;
     this._enabled = false;
+    this.observer?.onEnabledChanged(this);
   }
 
   /**
@@ -89,10 +137,22 @@ export class Entity {
   }
 
   /**
-   * Destroy this entity (cleanup)
+   * Destroy this entity (cleanup).
+   * Every component receives its onRemoved hook.
    */
   destroy(): void {
-    this.components.clear();
+    // Disable first so queries drop the entity instead of re-matching
+    // it against the components that remain during teardown
     this._enabled = false;
+    for (const component of Array.from(this.components.values())) {
+      this.detachComponent(component);
+    }
+    this.observer = null;
+  }
+
+  private detachComponent(component: Component): void {
+    this.components.delete(component.componentType);
+    component.onRemoved(this);
+    this.observer?.onComponentRemoved(this, component);
   }
 }
@@ -0,0 +1,85 @@
+/**
+ * Generational entity handle
+ * Packs a slot index (low bits) and a generation counter (high bits) into a
+ * single number so handles stay cheap to store, compare and serialize.
+ * A slot's generation is bumped whenever its entity is removed, which makes
+ * every handle to the old entity stale even after the slot is reused.
+ */
+export type EntityId = number;
+
+const INDEX_BITS = 20;
+const INDEX_LIMIT = 2 ** INDEX_BITS;
+
+/**
+ * Pack an index and generation into an entity handle
+ */
+export function makeEntityId(index: number, generation: number): EntityId {
+  return generation * INDEX_LIMIT + index;
+}
+
+/**
+ * Slot index of an entity handle
+ */
+export function entityIndex(id: EntityId): number {
+  return id % INDEX_LIMIT;
+}
+
+/**
+ * Generation of an entity handle
+ */
+export function entityGeneration(id: EntityId): number {
+  return Math.floor(id / INDEX_LIMIT);
+}
+
+/**
+ * EntityIdAllocator
+ * Hands out generational handles for a single World and recycles freed slots
+ */
+export class EntityIdAllocator {
+  private generations: number[] = [];
+  private freeIndices: number[] = [];
+
+  /**
+   * Allocate a handle, reusing a freed slot when one is available
+   */
+  allocate(): EntityId {
+    let index = this.freeIndices.pop();
+    if (index === undefined) {
+      index = this.generations.length;
+      if (index >= INDEX_LIMIT) {
+        throw new Error(`Entity limit of ${INDEX_LIMIT} reached`);
+      }
+      this.generations.push(0);
+    }
+    return makeEntityId(index, this.generations[index]);
+  }
+
+  /**
+   * Release a handle; its slot gets a new generation before being reused
+   */
+  free(id: EntityId): boolean {
+    if (!this.isAlive(id)) return false;
+
+    const index = entityIndex(id);
+    this.generations[index]++;
+    this.freeIndices.push(index);
+    return true;
+  }
+
+  /**
+   * Forget every slot so handles are allocated from scratch again.
+   * Only safe once no handle from before the reset is used anymore.
+   */
+  reset(): void {
+    this.generations = [];
+    this.freeIndices = [];
+  }
+
+  /**
+   * Check whether a handle refers to a live (not yet freed) entity
+   */
+  isAlive(id: EntityId): boolean {
+    const index = entityIndex(id);
+    return index < this.generations.length && this.generations[index] === entityGeneration(id);
+  }
+}
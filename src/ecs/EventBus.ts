@@ -0,0 +1,109 @@
+/**
+ * Listener receiving an event payload
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Listener sets keyed by event name, each typed by its own payload
+ */
+type ListenerRegistry<TMap> = { [E in keyof TMap]?: Set<EventListener<TMap[E]>> };
+
+/**
+ * EventBus class
+ * Typed publish/subscribe channel keyed by event name. Listeners registered
+ * with `on` run synchronously inside `emit`; listeners registered with
+ * `onTickEnd` receive their events in order when the owner calls `flush`.
+ */
+export class EventBus<TMap extends { [K in keyof TMap]: unknown }> {
+  private listeners: ListenerRegistry<TMap> = {};
+  private tickEndListeners: ListenerRegistry<TMap> = {};
+  /** Tick-end deliveries waiting for the next flush */
+  private pending: Array<() => void> = [];
+
+  /**
+   * Subscribe to an event, delivered as soon as it is emitted
+   * @returns Function that removes the listener
+   */
+  on<E extends keyof TMap>(event: E, listener: EventListener<TMap[E]>): () => void {
+    return this.subscribe(this.listeners, event, listener);
+  }
+
+  /**
+   * Subscribe to an event, delivered when the current tick ends
+   * @returns Function that removes the listener
+   */
+  onTickEnd<E extends keyof TMap>(event: E, listener: EventListener<TMap[E]>): () => void {
+    return this.subscribe(this.tickEndListeners, event, listener);
+  }
+
+  /**
+   * Unsubscribe a listener registered with either `on` or `onTickEnd`
+   */
+  off<E extends keyof TMap>(event: E, listener: EventListener<TMap[E]>): void {
+    this.listeners[event]?.delete(listener);
+    this.tickEndListeners[event]?.delete(listener);
+  }
+
+  /**
+   * Publish an event
+   */
+  emit<E extends keyof TMap>(event: E, payload: TMap[E]): void {
+    this.deliver(this.listeners, event, payload);
+
+    // Only buffer events somebody is waiting for
+    if (this.tickEndListeners[event]?.size) {
+      this.pending.push(() => this.deliver(this.tickEndListeners, event, payload));
+    }
+  }
+
+  /**
+   * Deliver buffered events to tick-end listeners.
+   * Events emitted while flushing are delivered by the next flush.
+   */
+  flush(): void {
+    const pending = this.pending;
+    this.pending = [];
+
+    for (const deliver of pending) {
+      deliver();
+    }
+  }
+
+  /**
+   * Drop buffered events without delivering them
+   */
+  discardPending(): void {
+    this.pending = [];
+  }
+
+  /**
+   * Remove every listener and buffered event
+   */
+  clear(): void {
+    this.listeners = {};
+    this.tickEndListeners = {};
+    this.pending = [];
+  }
+
+  private subscribe<E extends keyof TMap>(
+    registry: ListenerRegistry<TMap>,
+    event: E,
+    listener: EventListener<TMap[E]>
+  ): () => void {
+    let listeners = registry[event];
+    if (!listeners) {
+      listeners = new Set();
+      registry[event] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  private deliver<E extends keyof TMap>(registry: ListenerRegistry<TMap>, event: E, payload: TMap[E]): void {
+    const listeners = registry[event];
+    if (!listeners) return;
+    for (const listener of Array.from(listeners)) {
+      listener(payload);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { EntityId } from './EntityId';
+
+/**
+ * Id of a resource type from src/data/resources.json, e.g. 'gold'
+ */
+export type ResourceKind = string;
+
+/**
+ * Amounts keyed by resource type id; missing types count as zero
+ */
+export type ResourceAmounts = Record<ResourceKind, number>;
+
+export interface UnitTrainedEvent {
+  entityId: EntityId;
+  unitType: string;
+  buildingId: EntityId;
+  /** Owner of the new unit, or null if unowned */
+  playerId: number | null;
+}
+
+export interface UnitQueuedEvent {
+  buildingId: EntityId;
+  unitType: string;
+  /** Owner of the building, who paid for the unit */
+  playerId: number;
+  /** Units in the building's queue, this one included */
+  queueLength: number;
+}
+
+export interface ResourcesDepositedEvent {
+  entityId: EntityId;
+  resourceType: ResourceKind;
+  amount: number;
+  /** Player that received the resources */
+  playerId: number;
+  /** The player's stockpile after the deposit */
+  totals: ResourceAmounts;
+}
+
+export interface BuildingPlacedEvent {
+  entityId: EntityId;
+  buildingType: string;
+  x: number;
+  z: number;
+  playerId: number;
+}
+
+export interface BuildingConstructedEvent {
+  entityId: EntityId;
+  buildingType: string;
+  /** Owner of the building, or null if unowned */
+  playerId: number | null;
+}
+
+export interface BuildingDemolishedEvent {
+  entityId: EntityId;
+  buildingType: string;
+  playerId: number | null;
+  /** Whether it was still under construction, so its cost was refunded */
+  refunded: boolean;
+}
+
+export interface InsufficientResourcesEvent {
+  /** What the resources were needed for */
+  action: 'train' | 'build';
+  itemType: string;
+  /** Player that could not pay */
+  playerId: number;
+  cost: ResourceAmounts;
+  available: ResourceAmounts;
+}
+
+export interface SupplyBlockedEvent {
+  /** Building whose production paused */
+  buildingId: EntityId;
+  unitType: string;
+  playerId: number;
+  used: number;
+  max: number;
+}
+
+export interface ResourceDepletedEvent {
+  entityId: EntityId;
+  resourceType: ResourceKind;
+}
+
+export interface ResourceRegrownEvent {
+  entityId: EntityId;
+  resourceType: ResourceKind;
+}
+
+export interface CommandRejectedEvent {
+  commandType: string;
+  reason: string;
+  /** Player that issued the command, if it named one */
+  playerId: number | null;
+}
+
+export interface SimulationLoadedEvent {
+  /** Tick the loaded state starts at */
+  tick: number;
+}
+
+/**
+ * Gameplay events published on World.events, keyed by event name
+ */
+export interface GameEventMap {
+  /** A unit was added to a production queue and its cost reserved */
+  unitQueued: UnitQueuedEvent;
+  unitTrained: UnitTrainedEvent;
+  resourcesDeposited: ResourcesDepositedEvent;
+  /** A construction site was placed and its cost reserved */
+  buildingPlaced: BuildingPlacedEvent;
+  /** A construction site finished and its cost was committed */
+  buildingConstructed: BuildingConstructedEvent;
+  buildingDemolished: BuildingDemolishedEvent;
+  insufficientResources: InsufficientResourcesEvent;
+  /** Production paused because the owner is at their supply cap */
+  supplyBlocked: SupplyBlockedEvent;
+  resourceDepleted: ResourceDepletedEvent;
+  /** A depleted node grew back to its full amount */
+  resourceRegrown: ResourceRegrownEvent;
+  commandRejected: CommandRejectedEvent;
+  /** A scenario or save replaced the whole world state */
+  simulationLoaded: SimulationLoadedEvent;
+}
+
+export type GameEvent = keyof GameEventMap;
@@ -0,0 +1,207 @@
+import { SystemPhase, SYSTEM_PHASES } from './System';
+
+/**
+ * Timing summary of one system, in milliseconds
+ */
+export interface SystemTiming {
+  name: string;
+  phase: SystemPhase;
+  last: number;
+  average: number;
+  p95: number;
+  max: number;
+  /** Updates recorded since the profiler was created or reset */
+  calls: number;
+}
+
+/**
+ * Time spent per phase during one displayed frame, in milliseconds
+ */
+export interface FrameSample {
+  frameTime: number;
+  phases: Record<SystemPhase, number>;
+  /** Used JS heap in bytes, where the browser exposes it */
+  heapUsed: number | null;
+}
+
+/**
+ * Hints about allocation pressure derived from heap samples
+ */
+export interface AllocationHints {
+  heapUsed: number | null;
+  /** Average heap growth between collections, in bytes per second */
+  growthPerSecond: number | null;
+  /** Frames where the heap shrank, i.e. a garbage collection ran */
+  collections: number;
+}
+
+/**
+ * JSON dump of a profiling session
+ */
+export interface ProfileDump {
+  createdAt: string;
+  durationMs: number;
+  frameCount: number;
+  systems: SystemTiming[];
+  frames: FrameSample[];
+  allocation: AllocationHints;
+  world?: Record<string, number>;
+}
+
+interface SystemSamples {
+  phase: SystemPhase;
+  samples: number[];
+  next: number;
+  count: number;
+  calls: number;
+  last: number;
+}
+
+/**
+ * SystemProfiler
+ * Collects per-system update times in fixed-size rolling windows, plus
+ * per-frame phase totals for graphs. Attach it with
+ * SystemManager.setProfiler; it costs nothing while detached.
+ */
+export class SystemProfiler {
+  public readonly windowSize: number;
+
+  private systems: Map<string, SystemSamples> = new Map();
+  private frames: FrameSample[] = [];
+  private currentPhases: Record<SystemPhase, number> = emptyPhases();
+  private startedAt: number = now();
+  private collections: number = 0;
+
+  constructor(windowSize: number = 240) {
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Record one update of a system
+   */
+  recordSystem(name: string, phase: SystemPhase, milliseconds: number): void {
+    let entry = this.systems.get(name);
+    if (!entry) {
+      entry = { phase, samples: new Array(this.windowSize).fill(0), next: 0, count: 0, calls: 0, last: 0 };
+      this.systems.set(name, entry);
+    }
+
+    entry.samples[entry.next] = milliseconds;
+    entry.next = (entry.next + 1) % this.windowSize;
+    entry.count = Math.min(entry.count + 1, this.windowSize);
+    entry.calls++;
+    entry.last = milliseconds;
+    this.currentPhases[phase] += milliseconds;
+  }
+
+  /**
+   * Close the current frame and add it to the rolling frame history
+   * @param frameSeconds Real time of the frame
+   */
+  endFrame(frameSeconds: number): void {
+    const heapUsed = readHeapUsed();
+    const previous = this.frames[this.frames.length - 1];
+    if (heapUsed !== null && previous?.heapUsed != null && heapUsed < previous.heapUsed) {
+      this.collections++;
+    }
+
+    this.frames.push({ frameTime: frameSeconds * 1000, phases: this.currentPhases, heapUsed });
+    if (this.frames.length > this.windowSize) {
+      this.frames.shift();
+    }
+    this.currentPhases = emptyPhases();
+  }
+
+  /**
+   * Timing summaries, slowest average first
+   */
+  getTimings(): SystemTiming[] {
+    const timings: SystemTiming[] = [];
+    for (const [name, entry] of this.systems) {
+      const window = entry.samples.slice(0, entry.count);
+      const sorted = [...window].sort((a, b) => a - b);
+      timings.push({
+        name,
+        phase: entry.phase,
+        last: entry.last,
+        average: window.reduce((sum, value) => sum + value, 0) / Math.max(1, window.length),
+        p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] ?? 0,
+        max: sorted[sorted.length - 1] ?? 0,
+        calls: entry.calls,
+      });
+    }
+    return timings.sort((a, b) => b.average - a.average);
+  }
+
+  /**
+   * Recent frames, oldest first
+   */
+  getFrames(): readonly FrameSample[] {
+    return this.frames;
+  }
+
+  getAllocationHints(): AllocationHints {
+    const withHeap = this.frames.filter(frame => frame.heapUsed !== null);
+    if (withHeap.length < 2) {
+      return { heapUsed: withHeap[0]?.heapUsed ?? null, growthPerSecond: null, collections: this.collections };
+    }
+
+    // Only count growth between frames, collections would hide it
+    let growth = 0;
+    let seconds = 0;
+    for (let i = 1; i < withHeap.length; i++) {
+      const delta = withHeap[i].heapUsed! - withHeap[i - 1].heapUsed!;
+      if (delta > 0) growth += delta;
+      seconds += withHeap[i].frameTime / 1000;
+    }
+
+    return {
+      heapUsed: withHeap[withHeap.length - 1].heapUsed,
+      growthPerSecond: seconds > 0 ? growth / seconds : null,
+      collections: this.collections,
+    };
+  }
+
+  /**
+   * Snapshot of the session for saving and comparing builds
+   * @param world Extra counters to include (e.g. World.getStats())
+   */
+  dump(world?: Record<string, number>): ProfileDump {
+    return {
+      createdAt: new Date().toISOString(),
+      durationMs: now() - this.startedAt,
+      frameCount: this.frames.length,
+      systems: this.getTimings(),
+      frames: this.frames.map(frame => ({ ...frame, phases: { ...frame.phases } })),
+      allocation: this.getAllocationHints(),
+      world,
+    };
+  }
+
+  /**
+   * Forget everything recorded so far
+   */
+  reset(): void {
+    this.systems.clear();
+    this.frames = [];
+    this.currentPhases = emptyPhases();
+    this.startedAt = now();
+    this.collections = 0;
+  }
+}
+
+function emptyPhases(): Record<SystemPhase, number> {
+  return Object.fromEntries(SYSTEM_PHASES.map(phase => [phase, 0])) as Record<SystemPhase, number>;
+}
+
+function now(): number {
+  return performance.now();
+}
+
+/**
+ * Chrome exposes heap usage on performance.memory; other runtimes do not
+ */
+function readHeapUsed(): number | null {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize : null;
+}
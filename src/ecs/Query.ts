@@ -0,0 +1,99 @@
+import { Entity } from './Entity';
+import { ComponentClass } from './Component';
+
+/**
+ * Query class
+ * A persistent, incrementally maintained set of enabled entities that own
+ * all of the given component types. Queries are created once through
+ * World.getQuery and kept in sync by the World as entities and components
+ * change, so reading them never allocates.
+ */
+export class Query {
+  public readonly componentTypes: readonly ComponentClass[];
+  public readonly key: string;
+  private readonly matched: Entity[] = [];
+  private readonly indices: Map<number, number> = new Map();
+
+  constructor(componentTypes: readonly ComponentClass[]) {
+    this.componentTypes = [...componentTypes];
+    this.key = Query.keyFor(componentTypes);
+  }
+
+  /**
+   * Build the cache key for a set of component types (order independent)
+   */
+  static keyFor(componentTypes: readonly ComponentClass[]): string {
+    return [...new Set(componentTypes.map(type => type.TYPE))].sort().join('|');
+  }
+
+  /**
+   * Entities currently matching this query.
+   * The array is live: do not mutate it, and avoid structural changes on
+   * matched entities while iterating (use World.destroyEntity instead).
+   */
+  get entities(): readonly Entity[] {
+    return this.matched;
+  }
+
+  /**
+   * Number of matching entities
+   */
+  get size(): number {
+    return this.matched.length;
+  }
+
+  /**
+   * Check whether an entity belongs in this query
+   */
+  matches(entity: Entity): boolean {
+    return entity.enabled && entity.hasComponents(...this.componentTypes);
+  }
+
+  /**
+   * Check whether an entity is currently in this query
+   */
+  has(entity: Entity): boolean {
+    return this.indices.has(entity.id);
+  }
+
+  /**
+   * Add or remove an entity depending on whether it matches
+   */
+  sync(entity: Entity): void {
+    if (this.matches(entity)) {
+      this.add(entity);
+    } else {
+      this.remove(entity);
+    }
+  }
+
+  /**
+   * Remove an entity from this query
+   */
+  remove(entity: Entity): void {
+    const index = this.indices.get(entity.id);
+    if (index === undefined) return;
+
+    // Swap-remove keeps removal O(1)
+    const last = this.matched.pop()!;
+    if (last !== entity) {
+      this.matched[index] = last;
+      this.indices.set(last.id, index);
+    }
+    this.indices.delete(entity.id);
+  }
+
+  /**
+   * Remove all entities from this query
+   */
+  clear(): void {
+    this.matched.length = 0;
+    this.indices.clear();
+  }
+
+  private add(entity: Entity): void {
+    if (this.indices.has(entity.id)) return;
+    this.indices.set(entity.id, this.matched.length);
+    this.matched.push(entity);
+  }
+}
@@ -0,0 +1,32 @@
+import { Component } from './Component';
+import { EntityId } from './EntityId';
+
+/**
+ * Context passed to components while restoring a snapshot
+ */
+export interface SnapshotContext {
+  /**
+   * Translate an entity handle stored in the snapshot into the handle of the
+   * restored entity (null if the referenced entity was not restored)
+   */
+  resolveEntity(id: EntityId | null): EntityId | null;
+}
+
+/**
+ * Component whose state can be written to and read back from a snapshot.
+ * serialize() must return JSON-compatible data.
+ */
+export interface SerializableComponent<T = unknown> {
+  serialize(): T;
+  restore(data: T, context: SnapshotContext): void;
+}
+
+/**
+ * Check whether a component takes part in snapshots
+ */
+export function isSerializable(component: Component): component is Component & SerializableComponent {
+  const candidate = component as Partial<SerializableComponent>;
+  return typeof candidate.serialize === 'function' && typeof candidate.restore === 'function';
+}
+
+export type Vector3Data = [number, number, number];
@@ -0,0 +1,362 @@
+import { Entity } from './Entity';
+import { EntityId } from './EntityId';
+import { TransformComponent } from './components/TransformComponent';
+
+/**
+ * Default side length of a hash cell in world units
+ */
+export const DEFAULT_CELL_SIZE = 8;
+
+/**
+ * Decides whether an entity counts for a query
+ */
+export type SpatialFilter = (entity: Entity) => boolean;
+
+/**
+ * An entity found by a ray query
+ */
+export interface SpatialRayHit {
+  entity: Entity;
+  /** Distance along the ray to the point closest to the entity */
+  distance: number;
+}
+
+// Cell coordinates are packed into one number; this covers +-32768 cells per axis
+const CELL_OFFSET = 32768;
+const CELL_SPAN = 65536;
+
+/**
+ * SpatialHash
+ * Buckets entities with a TransformComponent into square cells on the
+ * ground plane (x/z) so proximity queries only look at nearby entities.
+ * The World keeps it in sync: entities are added and removed with their
+ * transform, and moves made through TransformComponent.setPosition are
+ * rehashed before the next query.
+ *
+ * Like World queries, results only contain enabled entities. Results are
+ * ordered by entity id (or distance, then id) so every peer sees the same
+ * order.
+ */
+export class SpatialHash {
+  public readonly cellSize: number;
+  private cells: Map<number, Set<Entity>> = new Map();
+  private cellOfEntity: Map<EntityId, number> = new Map();
+  private moved: Set<Entity> = new Set();
+  // Bounds of every cell used so far, in cell coordinates (never shrink)
+  private minCellX = Infinity;
+  private maxCellX = -Infinity;
+  private minCellZ = Infinity;
+  private maxCellZ = -Infinity;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Start tracking an entity at its current position
+   */
+  insert(entity: Entity): void {
+    if (this.cellOfEntity.has(entity.id)) {
+      this.markMoved(entity);
+      return;
+    }
+    const cell = this.cellFor(entity);
+    this.cellOfEntity.set(entity.id, cell);
+    this.addToCell(cell, entity);
+  }
+
+  /**
+   * Stop tracking an entity
+   */
+  remove(entity: Entity): void {
+    const cell = this.cellOfEntity.get(entity.id);
+    if (cell === undefined) return;
+
+    this.cellOfEntity.delete(entity.id);
+    this.moved.delete(entity);
+    this.removeFromCell(cell, entity);
+  }
+
+  /**
+   * Note that an entity's position changed; it is rehashed lazily
+   */
+  markMoved(entity: Entity): void {
+    if (this.cellOfEntity.has(entity.id)) {
+      this.moved.add(entity);
+    }
+  }
+
+  /**
+   * Forget every entity
+   */
+  clear(): void {
+    this.cells.clear();
+    this.cellOfEntity.clear();
+    this.moved.clear();
+    this.minCellX = this.minCellZ = Infinity;
+    this.maxCellX = this.maxCellZ = -Infinity;
+  }
+
+  /**
+   * Number of tracked entities
+   */
+  get size(): number {
+    return this.cellOfEntity.size;
+  }
+
+  /**
+   * Entities closer than a radius to a ground position
+   */
+  queryRadius(x: number, z: number, radius: number, filter?: SpatialFilter): Entity[] {
+    const radiusSquared = radius * radius;
+    const results: Entity[] = [];
+
+    this.forEachInRect(x - radius, z - radius, x + radius, z + radius, (entity) => {
+      const position = entity.requireComponent(TransformComponent).position;
+      const dx = position.x - x;
+      const dz = position.z - z;
+      if (dx * dx + dz * dz < radiusSquared && this.accepts(entity, filter)) {
+        results.push(entity);
+      }
+    });
+
+    return results.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Entities inside an axis-aligned ground rectangle (edges included)
+   */
+  queryRect(minX: number, minZ: number, maxX: number, maxZ: number, filter?: SpatialFilter): Entity[] {
+    const results: Entity[] = [];
+
+    this.forEachInRect(minX, minZ, maxX, maxZ, (entity) => {
+      const position = entity.requireComponent(TransformComponent).position;
+      if (position.x >= minX && position.x <= maxX && position.z >= minZ && position.z <= maxZ
+        && this.accepts(entity, filter)) {
+        results.push(entity);
+      }
+    });
+
+    return results.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Closest entity to a ground position, searching outwards ring by ring.
+   * Ties go to the lower entity id.
+   * @param maxDistance Only entities closer than this
+   */
+  nearest(x: number, z: number, filter?: SpatialFilter, maxDistance: number = Infinity): Entity | null {
+    this.flush();
+    if (this.cellOfEntity.size === 0) return null;
+
+    const centerX = this.cellCoord(x);
+    const centerZ = this.cellCoord(z);
+    // Rings outside the occupied bounds hold nothing
+    const firstRing = Math.max(
+      0,
+      this.minCellX - centerX, centerX - this.maxCellX,
+      this.minCellZ - centerZ, centerZ - this.maxCellZ
+    );
+    const lastRing = Math.max(
+      centerX - this.minCellX, this.maxCellX - centerX,
+      centerZ - this.minCellZ, this.maxCellZ - centerZ
+    );
+
+    let best: Entity | null = null;
+    let bestDistanceSquared = maxDistance * maxDistance;
+
+    for (let ring = firstRing; ring <= lastRing; ring++) {
+      // Every cell of a ring is at least this far from the query point
+      const ringDistance = Math.max(0, ring - 1) * this.cellSize;
+      if (ringDistance * ringDistance >= bestDistanceSquared) break;
+
+      this.forEachCellInRing(centerX, centerZ, ring, (cell) => {
+        for (const entity of cell) {
+          const position = entity.requireComponent(TransformComponent).position;
+          const dx = position.x - x;
+          const dz = position.z - z;
+          const distanceSquared = dx * dx + dz * dz;
+
+          const closer = distanceSquared < bestDistanceSquared
+            || (best !== null && distanceSquared === bestDistanceSquared && entity.id < best.id);
+          if (closer && this.accepts(entity, filter)) {
+            best = entity;
+            bestDistanceSquared = distanceSquared;
+          }
+        }
+      });
+    }
+
+    return best;
+  }
+
+  /**
+   * Entities within a width of a ray along the ground, closest first
+   * @param direction Ray direction on the ground plane (need not be normalized)
+   * @param maxDistance Length of the ray
+   * @param width Largest distance from the ray an entity may be to count as hit
+   */
+  raycast(
+    origin: { x: number; z: number },
+    direction: { x: number; z: number },
+    maxDistance: number,
+    width: number = 0.5,
+    filter?: SpatialFilter
+  ): SpatialRayHit[] {
+    const length = Math.hypot(direction.x, direction.z);
+    if (length === 0) return [];
+
+    const dirX = direction.x / length;
+    const dirZ = direction.z / length;
+    // Axis-parallel rays of unlimited length would otherwise give 0 * Infinity
+    const endX = dirX === 0 ? origin.x : origin.x + dirX * maxDistance;
+    const endZ = dirZ === 0 ? origin.z : origin.z + dirZ * maxDistance;
+    // Cells whose center is farther than this from the ray cannot hold a hit
+    const cellReach = width + this.cellSize * Math.SQRT1_2;
+    const hits: SpatialRayHit[] = [];
+
+    this.forEachCellInRect(
+      Math.min(origin.x, endX) - width, Math.min(origin.z, endZ) - width,
+      Math.max(origin.x, endX) + width, Math.max(origin.z, endZ) + width,
+      (cell, cellX, cellZ) => {
+        const centerX = (cellX + 0.5) * this.cellSize;
+        const centerZ = (cellZ + 0.5) * this.cellSize;
+        if (distanceToSegment(centerX, centerZ, origin.x, origin.z, dirX, dirZ, maxDistance) > cellReach) return;
+
+        for (const entity of cell) {
+          const position = entity.requireComponent(TransformComponent).position;
+          const offsetX = position.x - origin.x;
+          const offsetZ = position.z - origin.z;
+          const along = offsetX * dirX + offsetZ * dirZ;
+          if (along < 0 || along > maxDistance) continue;
+
+          const across = Math.abs(offsetX * dirZ - offsetZ * dirX);
+          if (across <= width && this.accepts(entity, filter)) {
+            hits.push({ entity, distance: along });
+          }
+        }
+      }
+    );
+
+    return hits.sort((a, b) => a.distance - b.distance || a.entity.id - b.entity.id);
+  }
+
+  /**
+   * Rehash entities that moved since the last query
+   */
+  private flush(): void {
+    for (const entity of this.moved) {
+      const previous = this.cellOfEntity.get(entity.id)!;
+      const cell = this.cellFor(entity);
+      if (cell !== previous) {
+        this.removeFromCell(previous, entity);
+        this.addToCell(cell, entity);
+        this.cellOfEntity.set(entity.id, cell);
+      }
+    }
+    this.moved.clear();
+  }
+
+  private forEachInRect(minX: number, minZ: number, maxX: number, maxZ: number, visit: (entity: Entity) => void): void {
+    this.forEachCellInRect(minX, minZ, maxX, maxZ, (cell) => cell.forEach(visit));
+  }
+
+  /**
+   * Visit the occupied cells overlapping a ground rectangle, after rehashing moved entities
+   */
+  private forEachCellInRect(
+    minX: number, minZ: number, maxX: number, maxZ: number,
+    visit: (cell: Set<Entity>, cellX: number, cellZ: number) => void
+  ): void {
+    this.flush();
+    const fromX = Math.max(this.cellCoord(minX), this.minCellX);
+    const toX = Math.min(this.cellCoord(maxX), this.maxCellX);
+    const fromZ = Math.max(this.cellCoord(minZ), this.minCellZ);
+    const toZ = Math.min(this.cellCoord(maxZ), this.maxCellZ);
+
+    for (let cellX = fromX; cellX <= toX; cellX++) {
+      for (let cellZ = fromZ; cellZ <= toZ; cellZ++) {
+        const cell = this.cells.get(this.cellKey(cellX, cellZ));
+        if (cell) {
+          visit(cell, cellX, cellZ);
+        }
+      }
+    }
+  }
+
+  private forEachCellInRing(centerX: number, centerZ: number, ring: number, visit: (cell: Set<Entity>) => void): void {
+    const visitAt = (cellX: number, cellZ: number) => {
+      const cell = this.cells.get(this.cellKey(cellX, cellZ));
+      if (cell) visit(cell);
+    };
+
+    if (ring === 0) {
+      visitAt(centerX, centerZ);
+      return;
+    }
+    for (let offset = -ring; offset <= ring; offset++) {
+      visitAt(centerX + offset, centerZ - ring);
+      visitAt(centerX + offset, centerZ + ring);
+    }
+    for (let offset = -ring + 1; offset < ring; offset++) {
+      visitAt(centerX - ring, centerZ + offset);
+      visitAt(centerX + ring, centerZ + offset);
+    }
+  }
+
+  private accepts(entity: Entity, filter?: SpatialFilter): boolean {
+    return entity.enabled && (!filter || filter(entity));
+  }
+
+  private addToCell(cell: number, entity: Entity): void {
+    let entities = this.cells.get(cell);
+    if (!entities) {
+      entities = new Set();
+      this.cells.set(cell, entities);
+    }
+    entities.add(entity);
+
+    const cellX = Math.floor(cell / CELL_SPAN) - CELL_OFFSET;
+    const cellZ = (cell % CELL_SPAN) - CELL_OFFSET;
+    this.minCellX = Math.min(this.minCellX, cellX);
+    this.maxCellX = Math.max(this.maxCellX, cellX);
+    this.minCellZ = Math.min(this.minCellZ, cellZ);
+    this.maxCellZ = Math.max(this.maxCellZ, cellZ);
+  }
+
+  private removeFromCell(cell: number, entity: Entity): void {
+    const entities = this.cells.get(cell);
+    if (!entities) return;
+
+    entities.delete(entity);
+    if (entities.size === 0) {
+      this.cells.delete(cell);
+    }
+  }
+
+  private cellFor(entity: Entity): number {
+    const position = entity.requireComponent(TransformComponent).position;
+    return this.cellKey(this.cellCoord(position.x), this.cellCoord(position.z));
+  }
+
+  private cellCoord(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(cellX: number, cellZ: number): number {
+    return (cellX + CELL_OFFSET) * CELL_SPAN + (cellZ + CELL_OFFSET);
+  }
+}
+
+/**
+ * Distance from a point to a segment given by its start, unit direction and length
+ */
+function distanceToSegment(
+  x: number, z: number,
+  startX: number, startZ: number,
+  dirX: number, dirZ: number,
+  length: number
+): number {
+  const along = Math.min(length, Math.max(0, (x - startX) * dirX + (z - startZ) * dirZ));
+  return Math.hypot(x - (startX + dirX * along), z - (startZ + dirZ * along));
+}
@@ -1,5 +1,24 @@
 import { Entity } from './Entity';
-import { ComponentType } from './Component';
+import { ComponentClass } from './Component';
+import { Query } from './Query';
+import type { SystemProfiler } from './Profiler';
+
+/**
+ * Execution phases, run in declaration order every update
+ */
+export enum SystemPhase {
+  INPUT = 'input',
+  SIMULATION = 'simulation',
+  POST_SIMULATION = 'postSimulation',
+  RENDER = 'render',
+}
+
+export const SYSTEM_PHASES: readonly SystemPhase[] = [
+  SystemPhase.INPUT,
+  SystemPhase.SIMULATION,
+  SystemPhase.POST_SIMULATION,
+  SystemPhase.RENDER,
+];
 
 /**
  * Base System interface
@@ -7,20 +26,41 @@ import { ComponentType } from './Component';
  * Exported for use in game systems (SelectionSystem, MovementSystem, etc.)
  */
 export interface System {
+  /**
+   * Unique name, used to declare ordering dependencies
+   */
+  readonly name: string;
+
   /**
    * Update method called every frame
    * @param deltaTime Time elapsed since last frame in seconds
-   * @param entities Array of entities that match this system's requirements
+   * @param entities Entities that match this system's requirements (live, read-only)
    */
-  update(deltaTime: number, entities: Entity[]): void;
+  update(deltaTime: number, entities: readonly Entity[]): void;
 
   /**
    * Component types required for this system to process an entity
    */
-  requiredComponents: ComponentType[];
+  requiredComponents: ComponentClass[];
+
+  /**
+   * Phase this system runs in (defaults to SIMULATION)
+   */
+  phase?: SystemPhase;
+
+  /**
+   * Names of systems in the same phase that must run before this one
+   */
+  runAfter?: readonly string[];
+
+  /**
+   * Names of systems in the same phase that must run after this one
+   */
+  runBefore?: readonly string[];
 
   /**
-   * Priority of this system (lower numbers run first)
+   * Priority of this system (lower numbers run first).
+   * Only breaks ties between systems with no dependency between them.
    */
   priority?: number;
 
@@ -28,17 +68,29 @@ export interface System {
    * Whether this system is enabled
    */
   enabled: boolean;
+
+  /**
+   * Called once when the system is registered
+   */
+  init?(): void;
+
+  /**
+   * Called once when the system is unregistered or the manager is cleared
+   */
+  cleanup?(): void;
 }
 
 /**
  * Base System class with common functionality
  */
 export abstract class BaseSystem implements System {
-  abstract requiredComponents: ComponentType[];
+  abstract readonly name: string;
+  abstract requiredComponents: ComponentClass[];
+  phase: SystemPhase = SystemPhase.SIMULATION;
   priority: number = 0;
   enabled: boolean = true;
 
-  abstract update(deltaTime: number, entities: Entity[]): void;
+  abstract update(deltaTime: number, entities: readonly Entity[]): void;
 
   /**
    * Filter entities that have all required components
@@ -50,62 +102,222 @@ export abstract class BaseSystem implements System {
   }
 }
 
+/**
+ * Source of cached queries (implemented by World)
+ */
+export interface QueryProvider {
+  getQuery(...componentTypes: ComponentClass[]): Query;
+}
+
+/**
+ * Error thrown when systems cannot be registered or ordered
+ */
+export class SystemOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SystemOrderError';
+  }
+}
+
 /**
  * SystemManager
- * Manages all systems and their execution order
+ * Manages all systems, their lifecycle and their execution order.
+ * Systems run phase by phase; inside a phase, declared runAfter/runBefore
+ * dependencies are honoured first and priority breaks the remaining ties.
  */
 export class SystemManager {
   private systems: System[] = [];
+  private schedule: Map<SystemPhase, System[]> = new Map();
+  private queries: Map<System, Query> = new Map();
+  private queryProvider: QueryProvider;
+  private profiler: SystemProfiler | null = null;
+
+  constructor(queryProvider: QueryProvider) {
+    this.queryProvider = queryProvider;
+  }
 
   /**
-   * Register a system
+   * Register a system and call its init hook
+   * @throws SystemOrderError on duplicate names or dependency cycles
    */
   register(system: System): this {
+    if (this.systems.some(existing => existing.name === system.name)) {
+      throw new SystemOrderError(`A system named '${system.name}' is already registered`);
+    }
+
     this.systems.push(system);
-    // Sort by priority (lower numbers first)
-    this.systems.sort((a, b) => (a.priority || 0) - (b.priority || 0));
+    try {
+      this.schedule = this.buildSchedule(this.systems);
+    } catch (error) {
+      this.systems.pop();
+      throw error;
+    }
+
+    this.queries.set(system, this.queryProvider.getQuery(...system.requiredComponents));
+    system.init?.();
     return this;
   }
 
   /**
-   * Unregister a system
+   * Unregister a system and call its cleanup hook
    */
   unregister(system: System): boolean {
     const index = this.systems.indexOf(system);
     if (index !== -1) {
       this.systems.splice(index, 1);
+      this.queries.delete(system);
+      this.schedule = this.buildSchedule(this.systems);
+      system.cleanup?.();
       return true;
     }
     return false;
   }
 
   /**
-   * Update all systems
+   * Find a registered system by name
    */
-  update(deltaTime: number, entities: Entity[]): void {
-    for (const system of this.systems) {
-      if (!system.enabled) continue;
+  getSystem<T extends System = System>(name: string): T | undefined {
+    return this.systems.find(system => system.name === name) as T | undefined;
+  }
+
+  /**
+   * Time every system update with a profiler (null to stop profiling)
+   */
+  setProfiler(profiler: SystemProfiler | null): void {
+    this.profiler = profiler;
+  }
+
+  getProfiler(): SystemProfiler | null {
+    return this.profiler;
+  }
+
+  /**
+   * Update all systems of every phase
+   */
+  update(deltaTime: number): void {
+    for (const phase of SYSTEM_PHASES) {
+      this.updatePhase(phase, deltaTime);
+    }
+  }
+
+  /**
+   * Update the systems of a single phase
+   */
+  updatePhase(phase: SystemPhase, deltaTime: number): void {
+    const systems = this.schedule.get(phase);
+    if (!systems) return;
 
-      // Filter entities that match this system's requirements
-      const matchingEntities = entities.filter(entity =>
-        entity.enabled && entity.hasComponents(...system.requiredComponents)
-      );
+    const profiler = this.profiler;
+    for (const system of systems) {
+      if (!system.enabled) continue;
 
-      system.update(deltaTime, matchingEntities);
+      const query = this.queries.get(system)!;
+      if (profiler) {
+        const started = performance.now();
+        system.update(deltaTime, query.entities);
+        profiler.recordSystem(system.name, phase, performance.now() - started);
+      } else {
+        system.update(deltaTime, query.entities);
+      }
     }
   }
 
   /**
-   * Get all registered systems
+   * Get all registered systems in execution order
    */
   getSystems(): System[] {
-    return [...this.systems];
+    return SYSTEM_PHASES.flatMap(phase => this.schedule.get(phase) ?? []);
   }
 
   /**
-   * Clear all systems
+   * Clear all systems, cleaning them up in reverse execution order
    */
   clear(): void {
+    const systems = this.getSystems().reverse();
     this.systems = [];
+    this.schedule.clear();
+    this.queries.clear();
+    for (const system of systems) {
+      system.cleanup?.();
+    }
   }
-}
\ No newline at end of file
+
+  /**
+   * Order systems per phase (topological sort, priority as tie-break).
+   * Dependencies on systems that are not registered are ignored.
+   */
+  private buildSchedule(systems: System[]): Map<SystemPhase, System[]> {
+    const byName = new Map(systems.map(system => [system.name, system]));
+    const phaseOf = (system: System) => system.phase ?? SystemPhase.SIMULATION;
+    const phaseIndex = (system: System) => SYSTEM_PHASES.indexOf(phaseOf(system));
+
+    // Collect "before -> after" edges inside each phase
+    const successors = new Map<System, Set<System>>(systems.map(system => [system, new Set()]));
+    const addEdge = (before: System, after: System) => {
+      if (phaseIndex(before) > phaseIndex(after)) {
+        throw new SystemOrderError(
+          `'${before.name}' (${phaseOf(before)}) cannot run before '${after.name}' (${phaseOf(after)})`
+        );
+      }
+      if (phaseOf(before) === phaseOf(after)) {
+        successors.get(before)!.add(after);
+      }
+    };
+
+    for (const system of systems) {
+      for (const name of system.runAfter ?? []) {
+        const other = byName.get(name);
+        if (other) addEdge(other, system);
+      }
+      for (const name of system.runBefore ?? []) {
+        const other = byName.get(name);
+        if (other) addEdge(system, other);
+      }
+    }
+
+    const schedule = new Map<SystemPhase, System[]>();
+    for (const phase of SYSTEM_PHASES) {
+      const members = systems.filter(system => phaseOf(system) === phase);
+      if (members.length > 0) {
+        schedule.set(phase, this.sortPhase(members, successors));
+      }
+    }
+    return schedule;
+  }
+
+  /**
+   * Kahn's algorithm; picks the lowest priority (then earliest registered)
+   * ready system at each step so the result is deterministic
+   */
+  private sortPhase(members: System[], successors: Map<System, Set<System>>): System[] {
+    const inDegree = new Map<System, number>(members.map(system => [system, 0]));
+    for (const system of members) {
+      for (const next of successors.get(system)!) {
+        inDegree.set(next, inDegree.get(next)! + 1);
+      }
+    }
+
+    const order = (system: System) => members.indexOf(system);
+    const ready = members.filter(system => inDegree.get(system) === 0);
+    const sorted: System[] = [];
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => (a.priority || 0) - (b.priority || 0) || order(a) - order(b));
+      const system = ready.shift()!;
+      sorted.push(system);
+
+      for (const next of successors.get(system)!) {
+        const remaining = inDegree.get(next)! - 1;
+        inDegree.set(next, remaining);
+        if (remaining === 0) ready.push(next);
+      }
+    }
+
+    if (sorted.length < members.length) {
+      const cycle = members.filter(system => !sorted.includes(system)).map(system => system.name);
+      throw new SystemOrderError(`Dependency cycle between systems: ${cycle.join(', ')}`);
+    }
+
+    return sorted;
+  }
+}
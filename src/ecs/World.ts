@@ -1,19 +1,59 @@
-import { Entity } from './Entity';
-import { ComponentType } from './Component';
-import { SystemManager } from './System';
+import { Entity, EntityObserver } from './Entity';
+import { Component, ComponentClass } from './Component';
+import { SystemManager, SystemPhase, QueryProvider } from './System';
+import { Query } from './Query';
+import { EntityId, EntityIdAllocator } from './EntityId';
+import { EventBus } from './EventBus';
+import { SpatialHash } from './SpatialHash';
+import { TransformComponent } from './components/TransformComponent';
+import { GameEventMap } from './GameEvents';
+import { RandomService } from '../core/Random';
+
+/**
+ * Structural change notifications emitted by a World
+ */
+export interface WorldEventMap {
+  entityCreated: (entity: Entity) => void;
+  entityDestroyed: (entity: Entity) => void;
+  componentAdded: (entity: Entity, component: Component) => void;
+  componentRemoved: (entity: Entity, component: Component) => void;
+}
+
+export type WorldEvent = keyof WorldEventMap;
 
 /**
  * World class
  * Central manager for the ECS, handles entities and systems
  */
-export class World {
-  private entities: Map<number, Entity>;
+export class World implements QueryProvider {
+  /** Gameplay events; tick-end listeners are flushed at the end of each update */
+  public readonly events: EventBus<GameEventMap> = new EventBus();
+  /** Deterministic randomness for gameplay code; seeded when a game is loaded */
+  public readonly random: RandomService = new RandomService();
+  /** Ground-plane index of every entity with a TransformComponent, for proximity queries */
+  public readonly spatial: SpatialHash = new SpatialHash();
+  private entities: Map<EntityId, Entity>;
+  private idAllocator: EntityIdAllocator;
   private systemManager: SystemManager;
-  private entitiesToDestroy: Set<number>;
+  private entitiesToDestroy: Set<EntityId>;
+  private queries: Map<string, Query>;
+  private enabledQuery: Query;
+  private tickCount: number = 0;
+  private simulationTime: number = 0;
+  private interpolationAlpha: number = 0;
+  private listeners: { [E in WorldEvent]: Set<WorldEventMap[E]> } = {
+    entityCreated: new Set(),
+    entityDestroyed: new Set(),
+    componentAdded: new Set(),
+    componentRemoved: new Set(),
+  };
 
   constructor() {
     this.entities = new Map();
-    this.systemManager = new SystemManager();
+    this.idAllocator = new EntityIdAllocator();
+    this.queries = new Map();
+    this.enabledQuery = this.getQuery();
+    this.systemManager = new SystemManager(this);
     this.entitiesToDestroy = new Set();
   }
 
@@ -21,18 +61,30 @@ export class World {
    * Create a new entity
    */
   createEntity(): Entity {
-    const entity = new Entity();
+    const entity = new Entity(this.idAllocator.allocate(), this.entityObserver);
     this.entities.set(entity.id, entity);
+    this.syncQueries(entity);
+    for (const listener of this.listeners.entityCreated) {
+      listener(entity);
+    }
     return entity;
   }
 
   /**
-   * Get an entity by ID
+   * Resolve an entity handle.
+   * Returns undefined for stale handles (destroyed or recycled entities).
    */
-  getEntity(id: number): Entity | undefined {
+  getEntity(id: EntityId): Entity | undefined {
     return this.entities.get(id);
   }
 
+  /**
+   * Check whether an entity handle still refers to a live entity
+   */
+  isAlive(id: EntityId): boolean {
+    return this.idAllocator.isAlive(id);
+  }
+
   /**
    * Get all entities
    */
@@ -41,35 +93,76 @@ export class World {
   }
 
   /**
-   * Get enabled entities
+   * Get enabled entities (live, read-only)
    */
-  getEnabledEntities(): Entity[] {
-    return Array.from(this.entities.values()).filter(e => e.enabled);
+  getEnabledEntities(): readonly Entity[] {
+    return this.enabledQuery.entities;
   }
 
   /**
-   * Query entities by required components
+   * Get (or create) the cached query for a set of component types.
+   * Queries are kept up to date incrementally and live for the World's lifetime.
    */
-  queryEntities(...componentTypes: ComponentType[]): Entity[] {
-    return Array.from(this.entities.values()).filter(entity =>
-      entity.enabled && entity.hasComponents(...componentTypes)
-    );
+  getQuery(...componentTypes: ComponentClass[]): Query {
+    const key = Query.keyFor(componentTypes);
+    let query = this.queries.get(key);
+
+    if (!query) {
+      query = new Query(componentTypes);
+      for (const entity of this.entities.values()) {
+        query.sync(entity);
+      }
+      this.queries.set(key, query);
+    }
+
+    return query;
+  }
+
+  /**
+   * Query entities by required components (live, read-only)
+   */
+  queryEntities(...componentTypes: ComponentClass[]): readonly Entity[] {
+    return this.getQuery(...componentTypes).entities;
+  }
+
+  /**
+   * Subscribe to a structural change event
+   * @returns Function that removes the listener
+   */
+  on<E extends WorldEvent>(event: E, listener: WorldEventMap[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a structural change event
+   */
+  off<E extends WorldEvent>(event: E, listener: WorldEventMap[E]): void {
+    this.listeners[event].delete(listener);
   }
 
   /**
    * Mark an entity for destruction (will be removed at end of frame)
    */
-  destroyEntity(entityId: number): void {
+  destroyEntity(entityId: EntityId): void {
     this.entitiesToDestroy.add(entityId);
   }
 
   /**
    * Immediately remove an entity
    */
-  removeEntity(entityId: number): boolean {
+  removeEntity(entityId: EntityId): boolean {
     const entity = this.entities.get(entityId);
     if (entity) {
+      // Listeners still see the entity's components at this point
+      for (const listener of this.listeners.entityDestroyed) {
+        listener(entity);
+      }
+      for (const query of this.queries.values()) {
+        query.remove(entity);
+      }
       entity.destroy();
+      this.idAllocator.free(entityId);
       return this.entities.delete(entityId);
     }
     return false;
@@ -85,6 +178,44 @@ export class World {
     this.entitiesToDestroy.clear();
   }
 
+  /**
+   * Keep every cached query in sync with an entity's current shape
+   */
+  private syncQueries(entity: Entity): void {
+    for (const query of this.queries.values()) {
+      query.sync(entity);
+    }
+  }
+
+  /**
+   * Observer attached to every entity created by this World
+   */
+  private entityObserver: EntityObserver = {
+    onComponentAdded: (entity, component) => {
+      this.syncQueries(entity);
+      if (component instanceof TransformComponent) {
+        this.spatial.insert(entity);
+        component.onMove(() => this.spatial.markMoved(entity));
+      }
+      for (const listener of this.listeners.componentAdded) {
+        listener(entity, component);
+      }
+    },
+    onComponentRemoved: (entity, component) => {
+      this.syncQueries(entity);
+      if (component instanceof TransformComponent) {
+        this.spatial.remove(entity);
+        component.onMove(null);
+      }
+      for (const listener of this.listeners.componentRemoved) {
+        listener(entity, component);
+      }
+    },
+    onEnabledChanged: (entity) => {
+      this.syncQueries(entity);
+    },
+  };
+
   /**
    * Get the system manager
    */
@@ -93,25 +224,97 @@ export class World {
   }
 
   /**
-   * Update all systems
+   * Run one simulation tick (input, simulation and post-simulation phases)
+   * @param deltaTime Fixed tick duration in seconds
    */
   update(deltaTime: number): void {
-    const entities = this.getEnabledEntities();
-    this.systemManager.update(deltaTime, entities);
+    this.systemManager.updatePhase(SystemPhase.INPUT, deltaTime);
+    this.systemManager.updatePhase(SystemPhase.SIMULATION, deltaTime);
+    this.systemManager.updatePhase(SystemPhase.POST_SIMULATION, deltaTime);
     this.processDestructions();
+    this.tickCount++;
+    this.simulationTime += deltaTime;
+    this.events.flush();
   }
 
   /**
-   * Clear all entities and systems
+   * Run the render phase once per displayed frame
+   * @param frameDeltaTime Real time since the previous frame in seconds
+   * @param alpha Interpolation factor between the previous and current tick
    */
-  clear(): void {
-    // Destroy all entities
-    for (const entity of this.entities.values()) {
-      entity.destroy();
+  render(frameDeltaTime: number, alpha: number): void {
+    this.interpolationAlpha = alpha;
+    this.systemManager.updatePhase(SystemPhase.RENDER, frameDeltaTime);
+  }
+
+  /**
+   * Interpolation factor of the frame being rendered, in [0, 1)
+   */
+  getInterpolationAlpha(): number {
+    return this.interpolationAlpha;
+  }
+
+  /**
+   * Number of simulation ticks run so far
+   */
+  getTick(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Simulated time in seconds
+   */
+  getSimulationTime(): number {
+    return this.simulationTime;
+  }
+
+  /**
+   * Remove every entity but keep systems registered
+   */
+  removeAllEntities(): void {
+    // Freeing the handles makes references held elsewhere stale
+    for (const entity of Array.from(this.entities.values())) {
+      this.removeEntity(entity.id);
     }
-    this.entities.clear();
     this.entitiesToDestroy.clear();
+    this.events.discardPending();
+  }
+
+  /**
+   * Start over with an empty world: remove every entity, restart entity
+   * handle allocation and reset the clock, keeping systems and listeners.
+   * Entities created afterwards get the same handles in every run, which
+   * replays and lockstep peers rely on. Handles from before the reset must
+   * not be used anymore.
+   */
+  reset(): void {
+    this.removeAllEntities();
+    this.idAllocator.reset();
+    this.resetClock();
+  }
+
+  /**
+   * Clear all entities and systems
+   */
+  clear(): void {
+    this.removeAllEntities();
     this.systemManager.clear();
+    this.resetClock();
+  }
+
+  /**
+   * Reset the tick counter and simulated time
+   */
+  resetClock(): void {
+    this.restoreClock(0, 0);
+  }
+
+  /**
+   * Set the tick counter and simulated time (used when loading a save)
+   */
+  restoreClock(tick: number, simulationTime: number): void {
+    this.tickCount = tick;
+    this.simulationTime = simulationTime;
   }
 
   /**
@@ -121,11 +324,13 @@ export class World {
     entityCount: number;
     enabledEntityCount: number;
     systemCount: number;
+    queryCount: number;
   } {
     return {
       entityCount: this.entities.size,
-      enabledEntityCount: this.getEnabledEntities().length,
+      enabledEntityCount: this.enabledQuery.size,
       systemCount: this.systemManager.getSystems().length,
+      queryCount: this.queries.size,
     };
   }
 }
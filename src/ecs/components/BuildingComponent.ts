@@ -1,34 +1,72 @@
 import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+
+export const BUILDING_TYPES = ['townhall', 'barracks', 'house', 'lumber_mill', 'mine_camp'] as const;
+
+export type BuildingType = typeof BUILDING_TYPES[number];
 
 export interface BuildingData {
-    buildingType: 'townhall' | 'barracks';
+    buildingType: BuildingType;
     constructionProgress: number;
     isConstructed: boolean;
+    buildTime?: number;
+    reservationId?: number | null;
 }
 
-export class BuildingComponent extends Component {
-    static readonly TYPE = 'BuildingComponent';
-    
-    public buildingType: 'townhall' | 'barracks';
+/**
+ * A building. Buildings a map starts with are complete; placed buildings
+ * start as construction sites (see startConstruction) and only work once
+ * constructed.
+ */
+export class BuildingComponent extends Component implements SerializableComponent<BuildingData> {
+    static readonly TYPE = 'building';
+
+    public buildingType: BuildingType;
+    /** Construction progress in [0, 100] */
     public constructionProgress: number;
     public isConstructed: boolean;
-    
-    constructor(buildingType: 'townhall' | 'barracks') {
+    /** Seconds construction takes */
+    public buildTime: number;
+    /** Ledger reservation holding the cost while under construction */
+    public reservationId: number | null;
+
+    constructor(buildingType: BuildingType, buildTime: number = 0) {
         super();
         this.buildingType = buildingType;
-        this.constructionProgress = 0;
-        this.isConstructed = true; // Start constructed for now
+        this.buildTime = buildTime;
+        this.constructionProgress = 100;
+        this.isConstructed = true;
+        this.reservationId = null;
     }
-    
-    getType(): string {
-        return BuildingComponent.TYPE;
+
+    /**
+     * Turn the building into a construction site whose cost is held by a reservation
+     */
+    startConstruction(reservationId: number | null): void {
+        this.constructionProgress = 0;
+        this.isConstructed = false;
+        this.reservationId = reservationId;
     }
-    
+
     serialize(): BuildingData {
         return {
             buildingType: this.buildingType,
             constructionProgress: this.constructionProgress,
-            isConstructed: this.isConstructed
+            isConstructed: this.isConstructed,
+            buildTime: this.buildTime,
+            reservationId: this.reservationId
         };
     }
-}
\ No newline at end of file
+
+    restore(data: BuildingData): void {
+        this.buildingType = data.buildingType;
+        this.constructionProgress = data.constructionProgress;
+        this.isConstructed = data.isConstructed;
+        // Saves from before construction sites keep the prefab's build time
+        this.buildTime = data.buildTime ?? this.buildTime;
+        this.reservationId = data.reservationId ?? null;
+    }
+}
+
+ComponentRegistry.register(BuildingComponent);
@@ -0,0 +1,37 @@
+import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+import { ResourceKind } from '../GameEvents';
+
+export interface DropOffData {
+    accepts: ResourceKind[] | null;
+}
+
+/**
+ * DropOffComponent marks a building where workers deliver what they
+ * gathered. `accepts` lists the resource types it takes; null takes all.
+ */
+export class DropOffComponent extends Component implements SerializableComponent<DropOffData> {
+    static readonly TYPE = 'dropOff';
+    
+    public accepts: ResourceKind[] | null;
+    
+    constructor(accepts: ResourceKind[] | null = null) {
+        super();
+        this.accepts = accepts;
+    }
+    
+    acceptsType(type: ResourceKind): boolean {
+        return this.accepts === null || this.accepts.includes(type);
+    }
+    
+    serialize(): DropOffData {
+        return { accepts: this.accepts ? [...this.accepts] : null };
+    }
+    
+    restore(data: DropOffData): void {
+        this.accepts = data.accepts ? [...data.accepts] : null;
+    }
+}
+
+ComponentRegistry.register(DropOffComponent);
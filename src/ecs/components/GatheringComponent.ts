@@ -1,39 +1,115 @@
 import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { EntityId } from '../EntityId';
+import { SerializableComponent, SnapshotContext } from '../Serialization';
+import { ResourceKind } from '../GameEvents';
+
+/**
+ * What a worker is doing; ResourceGatheringSystem moves workers between
+ * the gathering states, ConstructionSystem drives BUILDING workers
+ */
+export enum WorkerState {
+    IDLE = 'idle',
+    MOVING_TO_RESOURCE = 'movingToResource',
+    /** At a full node, waiting for a gatherer slot */
+    QUEUED = 'queued',
+    GATHERING = 'gathering',
+    RETURNING = 'returning',
+    DEPOSITING = 'depositing',
+    /** Walking to or working on a construction site */
+    BUILDING = 'building',
+}
 
 export interface GatheringData {
     gatherRate: number;
     carryCapacity: number;
     currentCarry: number;
-    resourceType: 'gold' | 'wood' | null;
-    targetResourceId: string | null;
-    isGathering: boolean;
+    resourceType: ResourceKind | null;
+    targetResourceId: EntityId | null;
+    dropOffId?: EntityId | null;
+    constructionSiteId?: EntityId | null;
+    state?: WorkerState;
+    autoGather?: boolean;
+    /** Saves from before worker states */
+    isGathering?: boolean;
     gatherTimer: number;
 }
 
-export class GatheringComponent extends Component {
-    static readonly TYPE = 'GatheringComponent';
+export class GatheringComponent extends Component implements SerializableComponent<GatheringData> {
+    static readonly TYPE = 'gathering';
     
     public gatherRate: number;
     public carryCapacity: number;
     public currentCarry: number;
-    public resourceType: 'gold' | 'wood' | null;
-    public targetResourceId: string | null;
-    public isGathering: boolean;
+    public resourceType: ResourceKind | null;
+    /** Resource node the worker is assigned to; kept across trips */
+    public targetResourceId: EntityId | null;
+    /** Drop-off the worker is carrying its load to */
+    public dropOffId: EntityId | null;
+    /** Construction site the worker is building */
+    public constructionSiteId: EntityId | null;
+    public state: WorkerState;
+    /** Idle workers look for the nearest resource by themselves */
+    public autoGather: boolean;
     public gatherTimer: number;
     
-    constructor(gatherRate: number = 10, carryCapacity: number = 10) {
+    constructor(gatherRate: number = 10, carryCapacity: number = 10, autoGather: boolean = false) {
         super();
         this.gatherRate = gatherRate;
         this.carryCapacity = carryCapacity;
         this.currentCarry = 0;
         this.resourceType = null;
         this.targetResourceId = null;
-        this.isGathering = false;
+        this.dropOffId = null;
+        this.constructionSiteId = null;
+        this.state = WorkerState.IDLE;
+        this.autoGather = autoGather;
+        this.gatherTimer = 0;
+    }
+    
+    get isFull(): boolean {
+        return this.currentCarry >= this.carryCapacity;
+    }
+    
+    /**
+     * Assign the worker to a resource node
+     */
+    assign(resourceId: EntityId): void {
+        this.targetResourceId = resourceId;
+        this.dropOffId = null;
+        this.constructionSiteId = null;
+        this.gatherTimer = 0;
+        this.state = WorkerState.MOVING_TO_RESOURCE;
+    }
+    
+    /**
+     * Send the worker to build a construction site. It keeps its load and
+     * remembered node.
+     */
+    construct(siteId: EntityId): void {
+        this.constructionSiteId = siteId;
+        this.dropOffId = null;
         this.gatherTimer = 0;
+        this.state = WorkerState.BUILDING;
     }
     
-    getType(): string {
-        return GatheringComponent.TYPE;
+    /**
+     * Leave the construction site and head back to the remembered node, if any
+     */
+    stopConstructing(): void {
+        this.constructionSiteId = null;
+        this.state = this.targetResourceId !== null ? WorkerState.MOVING_TO_RESOURCE : WorkerState.IDLE;
+    }
+    
+    /**
+     * Drop the current assignment; the worker keeps what it carries
+     */
+    clearOrders(): void {
+        this.targetResourceId = null;
+        this.dropOffId = null;
+        this.constructionSiteId = null;
+        this.gatherTimer = 0;
+        this.state = WorkerState.IDLE;
     }
     
     serialize(): GatheringData {
@@ -43,8 +119,34 @@ export class GatheringComponent extends Component {
             currentCarry: this.currentCarry,
             resourceType: this.resourceType,
             targetResourceId: this.targetResourceId,
-            isGathering: this.isGathering,
+            dropOffId: this.dropOffId,
+            constructionSiteId: this.constructionSiteId,
+            state: this.state,
+            autoGather: this.autoGather,
             gatherTimer: this.gatherTimer
         };
     }
-}
\ No newline at end of file
+    
+    restore(data: GatheringData, context: SnapshotContext): void {
+        this.gatherRate = data.gatherRate;
+        this.carryCapacity = data.carryCapacity;
+        this.currentCarry = data.currentCarry;
+        this.resourceType = data.resourceType;
+        this.targetResourceId = context.resolveEntity(data.targetResourceId);
+        this.dropOffId = context.resolveEntity(data.dropOffId ?? null);
+        this.constructionSiteId = context.resolveEntity(data.constructionSiteId ?? null);
+        this.state = data.state ?? this.inferLegacyState(data);
+        // Workers always looked for work by themselves before the flag existed
+        this.autoGather = data.autoGather ?? true;
+        this.gatherTimer = data.gatherTimer;
+    }
+    
+    private inferLegacyState(data: GatheringData): WorkerState {
+        if (data.currentCarry >= data.carryCapacity) return WorkerState.RETURNING;
+        if (data.isGathering) return WorkerState.GATHERING;
+        if (data.targetResourceId !== null) return WorkerState.MOVING_TO_RESOURCE;
+        return WorkerState.IDLE;
+    }
+}
+
+ComponentRegistry.register(GatheringComponent);
@@ -1,12 +1,21 @@
 import * as THREE from 'three';
-import { BaseComponent, ComponentType } from '../Component';
+import { BaseComponent } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent, Vector3Data } from '../Serialization';
+
+export interface MovementData {
+  speed: number;
+  rotationSpeed: number;
+  arrivalThreshold: number;
+  targetPosition: Vector3Data | null;
+}
 
 /**
  * MovementComponent
  * Handles entity movement with speed and target position
  */
-export class MovementComponent extends BaseComponent {
-  type = ComponentType.MOVEMENT;
+export class MovementComponent extends BaseComponent implements SerializableComponent<MovementData> {
+  static readonly TYPE = 'movement';
 
   speed: number;
   targetPosition: THREE.Vector3 | null;
@@ -87,4 +96,26 @@ export class MovementComponent extends BaseComponent {
   stop(): void {
     this.clearTarget();
   }
+
+  serialize(): MovementData {
+    return {
+      speed: this.speed,
+      rotationSpeed: this.rotationSpeed,
+      arrivalThreshold: this.arrivalThreshold,
+      targetPosition: this.targetPosition ? this.targetPosition.toArray() as Vector3Data : null,
+    };
+  }
+
+  restore(data: MovementData): void {
+    this.speed = data.speed;
+    this.rotationSpeed = data.rotationSpeed;
+    this.arrivalThreshold = data.arrivalThreshold;
+    if (data.targetPosition) {
+      this.setTarget(new THREE.Vector3().fromArray(data.targetPosition));
+    } else {
+      this.clearTarget();
+    }
+  }
 }
+
+ComponentRegistry.register(MovementComponent);
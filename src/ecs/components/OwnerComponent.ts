@@ -0,0 +1,31 @@
+import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+
+export interface OwnerData {
+    playerId: number;
+}
+
+/**
+ * OwnerComponent records which player controls an entity
+ */
+export class OwnerComponent extends Component implements SerializableComponent<OwnerData> {
+    static readonly TYPE = 'owner';
+    
+    public playerId: number;
+    
+    constructor(playerId: number) {
+        super();
+        this.playerId = playerId;
+    }
+    
+    serialize(): OwnerData {
+        return { playerId: this.playerId };
+    }
+    
+    restore(data: OwnerData): void {
+        this.playerId = data.playerId;
+    }
+}
+
+ComponentRegistry.register(OwnerComponent);
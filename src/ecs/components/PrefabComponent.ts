@@ -0,0 +1,31 @@
+import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+
+export interface PrefabData {
+    prefabId: string;
+}
+
+/**
+ * PrefabComponent remembers which prefab an entity was spawned from
+ */
+export class PrefabComponent extends Component implements SerializableComponent<PrefabData> {
+    static readonly TYPE = 'prefab';
+    
+    public prefabId: string;
+    
+    constructor(prefabId: string) {
+        super();
+        this.prefabId = prefabId;
+    }
+    
+    serialize(): PrefabData {
+        return { prefabId: this.prefabId };
+    }
+    
+    restore(data: PrefabData): void {
+        this.prefabId = data.prefabId;
+    }
+}
+
+ComponentRegistry.register(PrefabComponent);
@@ -1,54 +1,87 @@
 import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+import { ResourceAmounts } from '../GameEvents';
 
 export interface QueuedUnit {
     unitType: string;
     progress: number;
-    cost: { gold: number; wood: number };
+    cost: ResourceAmounts;
+    /** Ledger reservation holding the cost, if the cost was reserved */
+    reservationId: number | null;
 }
 
 export interface ProductionQueueData {
     queue: QueuedUnit[];
     productionRate: number;
     maxQueueSize: number;
+    supplyBlocked?: boolean;
 }
 
-export class ProductionQueueComponent extends Component {
-    static readonly TYPE = 'ProductionQueueComponent';
+export class ProductionQueueComponent extends Component implements SerializableComponent<ProductionQueueData> {
+    static readonly TYPE = 'productionQueue';
     
     public queue: QueuedUnit[];
     public productionRate: number;
     public maxQueueSize: number;
+    /** The next unit waits because its owner is at the supply cap */
+    public supplyBlocked: boolean;
     
     constructor(productionRate: number = 1, maxQueueSize: number = 5) {
         super();
         this.queue = [];
         this.productionRate = productionRate;
         this.maxQueueSize = maxQueueSize;
+        this.supplyBlocked = false;
     }
     
-    getType(): string {
-        return ProductionQueueComponent.TYPE;
+    isFull(): boolean {
+        return this.queue.length >= this.maxQueueSize;
     }
     
-    addToQueue(unitType: string, cost: { gold: number; wood: number }): boolean {
-        if (this.queue.length >= this.maxQueueSize) {
+    addToQueue(unitType: string, cost: ResourceAmounts, reservationId: number | null = null): boolean {
+        if (this.isFull()) {
             return false;
         }
         
         this.queue.push({
             unitType,
             progress: 0,
-            cost
+            cost,
+            reservationId
         });
         
         return true;
     }
     
+    /**
+     * Remove a queued unit
+     * @returns The removed entry, or null if the index is out of range
+     */
+    removeFromQueue(index: number): QueuedUnit | null {
+        if (index < 0 || index >= this.queue.length) {
+            return null;
+        }
+        
+        return this.queue.splice(index, 1)[0];
+    }
+    
     serialize(): ProductionQueueData {
         return {
-            queue: this.queue,
+            queue: this.queue.map(item => ({ ...item, cost: { ...item.cost } })),
             productionRate: this.productionRate,
-            maxQueueSize: this.maxQueueSize
+            maxQueueSize: this.maxQueueSize,
+            supplyBlocked: this.supplyBlocked
         };
     }
-}
\ No newline at end of file
+    
+    restore(data: ProductionQueueData): void {
+        this.queue = data.queue.map(item => ({ ...item, cost: { ...item.cost }, reservationId: item.reservationId ?? null }));
+        this.productionRate = data.productionRate;
+        this.maxQueueSize = data.maxQueueSize;
+        // Saves from before supply existed never blocked
+        this.supplyBlocked = data.supplyBlocked ?? false;
+    }
+}
+
+ComponentRegistry.register(ProductionQueueComponent);
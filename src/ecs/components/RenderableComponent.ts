@@ -1,12 +1,13 @@
 import * as THREE from 'three';
-import { BaseComponent, ComponentType } from '../Component';
+import { BaseComponent } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
 
 /**
  * RenderableComponent
  * Holds a reference to a Three.js mesh for rendering
  */
 export class RenderableComponent extends BaseComponent {
-  type = ComponentType.RENDERABLE;
+  static readonly TYPE = 'renderable';
 
   mesh: THREE.Mesh | THREE.Group | THREE.Object3D;
   visible: boolean;
@@ -60,16 +61,36 @@ export class RenderableComponent extends BaseComponent {
   }
 
   /**
-   * Dispose of the mesh and its resources
+   * Remove the mesh from the scene when the component is detached
+   */
+  onRemoved(): void {
+    this.dispose();
+  }
+
+  /**
+   * Remove the mesh from its parent and dispose of its resources
    */
   dispose(): void {
-    if (this.mesh instanceof THREE.Mesh) {
-      this.mesh.geometry?.dispose();
-      if (Array.isArray(this.mesh.material)) {
-        this.mesh.material.forEach(mat => mat.dispose());
+    disposeObject(this.mesh);
+  }
+}
+
+/**
+ * Remove an object from its parent and dispose of the geometries and
+ * materials of every mesh in it
+ */
+export function disposeObject(root: THREE.Object3D): void {
+  root.removeFromParent();
+  root.traverse(object => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry?.dispose();
+      if (Array.isArray(object.material)) {
+        object.material.forEach(mat => mat.dispose());
       } else {
-        this.mesh.material?.dispose();
+        object.material?.dispose();
       }
     }
-  }
+  });
 }
+
+ComponentRegistry.register(RenderableComponent);
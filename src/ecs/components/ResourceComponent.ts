@@ -1,31 +1,84 @@
 import { Component } from '../Component';
-import * as THREE from 'three';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { EntityId } from '../EntityId';
+import { SerializableComponent, SnapshotContext } from '../Serialization';
+import { ResourceKind } from '../GameEvents';
 
 export interface ResourceData {
-    type: 'gold' | 'wood';
+    type: ResourceKind;
     amount: number;
     maxAmount: number;
     depleted: boolean;
+    depletedTime?: number;
+    maxGatherers?: number;
+    gatherers?: EntityId[];
+    queue?: EntityId[];
 }
 
-export class ResourceComponent extends Component {
-    static readonly TYPE = 'ResourceComponent';
+export class ResourceComponent extends Component implements SerializableComponent<ResourceData> {
+    static readonly TYPE = 'resource';
     
-    public type: 'gold' | 'wood';
+    public type: ResourceKind;
     public amount: number;
     public maxAmount: number;
     public depleted: boolean;
+    /** Seconds the node has been depleted */
+    public depletedTime: number;
+    /** Number of workers that can gather at the same time */
+    public maxGatherers: number;
+    /** Workers holding a slot */
+    public gatherers: EntityId[];
+    /** Workers waiting for a slot, first come first served */
+    public queue: EntityId[];
     
-    constructor(type: 'gold' | 'wood', amount: number) {
+    constructor(type: ResourceKind, amount: number, maxGatherers: number = 1) {
         super();
         this.type = type;
         this.amount = amount;
         this.maxAmount = amount;
         this.depleted = false;
+        this.depletedTime = 0;
+        this.maxGatherers = maxGatherers;
+        this.gatherers = [];
+        this.queue = [];
     }
     
-    getType(): string {
-        return ResourceComponent.TYPE;
+    /**
+     * Whether a newly arriving worker could start gathering right away
+     */
+    get hasRoom(): boolean {
+        return this.gatherers.length < this.maxGatherers && this.queue.length === 0;
+    }
+    
+    /**
+     * Take a slot for a worker unless the node is full or others queued first
+     * @returns Whether the worker holds a slot
+     */
+    occupy(workerId: EntityId): boolean {
+        if (this.gatherers.includes(workerId)) return true;
+        if (this.gatherers.length >= this.maxGatherers) return false;
+        if (this.queue.length > 0 && this.queue[0] !== workerId) return false;
+        
+        this.queue = this.queue.filter(id => id !== workerId);
+        this.gatherers.push(workerId);
+        return true;
+    }
+    
+    /**
+     * Line a worker up for the next free slot
+     */
+    enqueue(workerId: EntityId): void {
+        if (!this.queue.includes(workerId)) {
+            this.queue.push(workerId);
+        }
+    }
+    
+    /**
+     * Free a worker's slot or place in the queue
+     */
+    release(workerId: EntityId): void {
+        this.gatherers = this.gatherers.filter(id => id !== workerId);
+        this.queue = this.queue.filter(id => id !== workerId);
     }
     
     gather(gatherAmount: number): number {
@@ -41,12 +94,48 @@ export class ResourceComponent extends Component {
         return actualAmount;
     }
     
+    /**
+     * Give a depleted node part of its amount back. The node stays
+     * depleted (ungatherable) until it is completely full.
+     * @returns Whether the node is full again and can be gathered
+     */
+    regrow(amount: number): boolean {
+        this.amount = Math.min(this.maxAmount, this.amount + amount);
+        if (this.amount < this.maxAmount) return false;
+        
+        this.depleted = false;
+        this.depletedTime = 0;
+        return true;
+    }
+    
     serialize(): ResourceData {
         return {
             type: this.type,
             amount: this.amount,
             maxAmount: this.maxAmount,
-            depleted: this.depleted
+            depleted: this.depleted,
+            depletedTime: this.depletedTime,
+            maxGatherers: this.maxGatherers,
+            gatherers: [...this.gatherers],
+            queue: [...this.queue]
         };
     }
-}
\ No newline at end of file
+    
+    restore(data: ResourceData, context: SnapshotContext): void {
+        const resolve = (ids: EntityId[] = []) => ids
+            .map(id => context.resolveEntity(id))
+            .filter((id): id is EntityId => id !== null);
+        
+        this.type = data.type;
+        this.amount = data.amount;
+        this.maxAmount = data.maxAmount;
+        this.depleted = data.depleted;
+        this.depletedTime = data.depletedTime ?? 0;
+        // Older saves keep the prefab's slot count
+        this.maxGatherers = data.maxGatherers ?? this.maxGatherers;
+        this.gatherers = resolve(data.gatherers);
+        this.queue = resolve(data.queue);
+    }
+}
+
+ComponentRegistry.register(ResourceComponent);
@@ -1,12 +1,19 @@
 import * as THREE from 'three';
-import { BaseComponent, ComponentType } from '../Component';
+import { BaseComponent } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+
+export interface SelectableData {
+  isSelected: boolean;
+  selectionColor: number;
+}
 
 /**
  * SelectableComponent
  * Marks an entity as selectable and tracks its selection state
  */
-export class SelectableComponent extends BaseComponent {
-  type = ComponentType.SELECTABLE;
+export class SelectableComponent extends BaseComponent implements SerializableComponent<SelectableData> {
+  static readonly TYPE = 'selectable';
 
   isSelected: boolean;
   selectionIndicator: THREE.Object3D | null;
@@ -76,6 +83,29 @@ export class SelectableComponent extends BaseComponent {
     return this.originalColor;
   }
 
+  serialize(): SelectableData {
+    return {
+      isSelected: this.isSelected,
+      selectionColor: this.selectionColor.getHex(),
+    };
+  }
+
+  restore(data: SelectableData): void {
+    this.selectionColor.setHex(data.selectionColor);
+    if (data.isSelected) {
+      this.select();
+    } else {
+      this.deselect();
+    }
+  }
+
+  /**
+   * Remove the selection indicator when the component is detached
+   */
+  onRemoved(): void {
+    this.dispose();
+  }
+
   /**
    * Cleanup
    */
@@ -86,3 +116,5 @@ export class SelectableComponent extends BaseComponent {
     }
   }
 }
+
+ComponentRegistry.register(SelectableComponent);
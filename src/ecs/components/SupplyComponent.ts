@@ -0,0 +1,37 @@
+import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent } from '../Serialization';
+
+export interface SupplyData {
+    cost: number;
+    provided: number;
+}
+
+/**
+ * SupplyComponent holds an entity's share of its owner's population:
+ * units take up `cost` supply, buildings such as houses add `provided`
+ * to the owner's cap
+ */
+export class SupplyComponent extends Component implements SerializableComponent<SupplyData> {
+    static readonly TYPE = 'supply';
+    
+    public cost: number;
+    public provided: number;
+    
+    constructor(cost: number = 0, provided: number = 0) {
+        super();
+        this.cost = cost;
+        this.provided = provided;
+    }
+    
+    serialize(): SupplyData {
+        return { cost: this.cost, provided: this.provided };
+    }
+    
+    restore(data: SupplyData): void {
+        this.cost = data.cost;
+        this.provided = data.provided;
+    }
+}
+
+ComponentRegistry.register(SupplyComponent);
@@ -1,31 +1,68 @@
 import { Component } from '../Component';
+import { ComponentRegistry } from '../ComponentRegistry';
+import { SerializableComponent, Vector3Data } from '../Serialization';
 import * as THREE from 'three';
 
+export interface TransformData {
+  position: Vector3Data;
+  rotation: Vector3Data;
+  scale: Vector3Data;
+}
+
 /**
  * TransformComponent stores position, rotation, and scale data
  * for entities in 3D space using Three.js math types.
  */
-export class TransformComponent extends Component {
+export class TransformComponent extends Component implements SerializableComponent<TransformData> {
+  static readonly TYPE = 'transform';
+
   public position: THREE.Vector3;
   public rotation: THREE.Euler;
   public scale: THREE.Vector3;
+  /** Position at the start of the current tick, used for render interpolation */
+  public previousPosition: THREE.Vector3;
+  private moveListener: (() => void) | null = null;
 
   constructor(
     position: THREE.Vector3 = new THREE.Vector3(0, 0, 0),
     rotation: THREE.Euler = new THREE.Euler(0, 0, 0),
     scale: THREE.Vector3 = new THREE.Vector3(1, 1, 1)
   ) {
-    super('Transform');
+    super();
     this.position = position.clone();
     this.rotation = rotation.clone();
     this.scale = scale.clone();
+    this.previousPosition = position.clone();
+  }
+
+  /**
+   * Remember the current position as the start of the next tick
+   */
+  storePrevious(): void {
+    this.previousPosition.copy(this.position);
+  }
+
+  /**
+   * Get the position blended between the previous and current tick
+   */
+  getInterpolatedPosition(alpha: number, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    return target.lerpVectors(this.previousPosition, this.position, alpha);
   }
 
   /**
-   * Set position from x, y, z coordinates
+   * Set position from x, y, z coordinates.
+   * Move entities through this method so the World's spatial index follows.
    */
   setPosition(x: number, y: number, z: number): void {
     this.position.set(x, y, z);
+    this.moveListener?.();
+  }
+
+  /**
+   * Set the callback run whenever the position is set (null to remove it)
+   */
+  onMove(listener: (() => void) | null): void {
+    this.moveListener = listener;
   }
 
   /**
@@ -71,15 +108,33 @@ export class TransformComponent extends Component {
    * Update this transform from a Three.js Object3D
    */
   updateFromObject3D(object: THREE.Object3D): void {
-    this.position.copy(object.position);
+    this.setPosition(object.position.x, object.position.y, object.position.z);
     this.rotation.copy(object.rotation);
     this.scale.copy(object.scale);
   }
 
+  serialize(): TransformData {
+    return {
+      position: this.position.toArray() as Vector3Data,
+      rotation: [this.rotation.x, this.rotation.y, this.rotation.z],
+      scale: this.scale.toArray() as Vector3Data,
+    };
+  }
+
+  restore(data: TransformData): void {
+    this.position.fromArray(data.position);
+    this.previousPosition.copy(this.position);
+    this.moveListener?.();
+    this.rotation.set(data.rotation[0], data.rotation[1], data.rotation[2]);
+    this.scale.fromArray(data.scale);
+  }
+
   /**
    * Clone this transform component
    */
   clone(): TransformComponent {
     return new TransformComponent(this.position, this.rotation, this.scale);
   }
-}
\ No newline at end of file
+}
+
+ComponentRegistry.register(TransformComponent);
@@ -0,0 +1,494 @@
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { Component } from '../ecs/Component';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+import { RenderableComponent } from '../ecs/components/RenderableComponent';
+import { SelectableComponent } from '../ecs/components/SelectableComponent';
+import { MovementComponent } from '../ecs/components/MovementComponent';
+import { GatheringComponent } from '../ecs/components/GatheringComponent';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { BUILDING_TYPES, BuildingComponent, BuildingType } from '../ecs/components/BuildingComponent';
+import { ProductionQueueComponent } from '../ecs/components/ProductionQueueComponent';
+import { PrefabComponent } from '../ecs/components/PrefabComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { SupplyComponent } from '../ecs/components/SupplyComponent';
+import { DropOffComponent } from '../ecs/components/DropOffComponent';
+import { ResourceAmounts, ResourceKind } from '../ecs/GameEvents';
+import { VISUAL_SHAPES, VisualDefinition, VisualPartDefinition, createVisualObject, createSelectionRing } from './PrefabVisuals';
+import defaultPrefabs from '../data/prefabs.json';
+
+/**
+ * Prefab data of the movement component
+ */
+export interface MovementPrefabData {
+    speed?: number;
+    rotationSpeed?: number;
+    arrivalThreshold?: number;
+}
+
+export interface SelectablePrefabData {
+    /** CSS color string or hex number */
+    selectionColor?: string | number;
+}
+
+export interface GatheringPrefabData {
+    gatherRate?: number;
+    carryCapacity?: number;
+    autoGather?: boolean;
+}
+
+export interface ResourcePrefabData {
+    type: ResourceKind;
+    amount: number;
+    maxGatherers?: number;
+}
+
+export interface BuildingPrefabData {
+    buildingType: BuildingType;
+    /** Seconds construction takes */
+    buildTime?: number;
+}
+
+export interface ProductionQueuePrefabData {
+    productionRate?: number;
+    maxQueueSize?: number;
+}
+
+export interface SupplyPrefabData {
+    cost?: number;
+    provided?: number;
+}
+
+export interface DropOffPrefabData {
+    /** Resource types taken; omit to take every type */
+    accepts?: ResourceKind[];
+}
+
+/**
+ * Component data of the built-in component keys
+ */
+export interface PrefabComponentData {
+    movement: MovementPrefabData;
+    selectable: SelectablePrefabData;
+    gathering: GatheringPrefabData;
+    resource: ResourcePrefabData;
+    building: BuildingPrefabData;
+    productionQueue: ProductionQueuePrefabData;
+    supply: SupplyPrefabData;
+    dropOff: DropOffPrefabData;
+}
+
+/**
+ * Component data keyed by component registry key. Keys registered with
+ * registerComponentBuilder carry data their builder checks.
+ */
+export type PrefabComponents = Partial<PrefabComponentData> & Record<string, unknown>;
+
+/**
+ * Data-driven description of a unit, building or resource
+ */
+export interface PrefabDefinition {
+    id: string;
+    name: string;
+    category: 'unit' | 'building' | 'resource';
+    /** Price keyed by resource type id */
+    cost?: ResourceAmounts;
+    /** Height of the entity origin above the ground */
+    baseHeight: number;
+    /** Side length of the ground area a building occupies */
+    footprint?: number;
+    components: PrefabComponents;
+    visual?: VisualDefinition;
+}
+
+/**
+ * Turns a component's prefab data into the component
+ */
+export interface PrefabComponentBuilder<T> {
+    /**
+     * Check raw prefab data
+     * @throws PrefabError describing the first problem found
+     */
+    parse(data: PrefabData): T;
+    build(data: T): Component;
+}
+
+/**
+ * Error thrown for invalid prefab definitions or unknown prefab ids
+ */
+export class PrefabError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PrefabError';
+    }
+}
+
+const CATEGORIES = ['unit', 'building', 'resource'] as const;
+
+/**
+ * Read access to one object of raw prefab data. Every accessor throws a
+ * PrefabError naming the prefab and field when the value has the wrong type.
+ */
+export class PrefabData {
+    private data: Record<string, unknown>;
+    private where: string;
+
+    constructor(data: unknown, where: string) {
+        // Components without settings may be given as null
+        if (data === null || data === undefined) {
+            data = {};
+        }
+        if (typeof data !== 'object' || Array.isArray(data)) {
+            throw new PrefabError(`${where} must be an object`);
+        }
+        this.data = { ...data };
+        this.where = where;
+    }
+
+    has(field: string): boolean {
+        return this.data[field] !== undefined;
+    }
+
+    number(field: string): number {
+        const value = this.data[field];
+        if (typeof value !== 'number' || !Number.isFinite(value)) throw this.error(field, 'a number');
+        return value;
+    }
+
+    optionalNumber(field: string): number | undefined {
+        return this.has(field) ? this.number(field) : undefined;
+    }
+
+    string(field: string): string {
+        const value = this.data[field];
+        if (typeof value !== 'string') throw this.error(field, 'a string');
+        return value;
+    }
+
+    optionalBoolean(field: string): boolean | undefined {
+        const value = this.data[field];
+        if (value !== undefined && typeof value !== 'boolean') throw this.error(field, 'a boolean');
+        return value;
+    }
+
+    optionalColor(field: string): string | number | undefined {
+        const value = this.data[field];
+        if (value !== undefined && typeof value !== 'string' && typeof value !== 'number') {
+            throw this.error(field, 'a color string or number');
+        }
+        return value;
+    }
+
+    optionalStrings(field: string): string[] | undefined {
+        const value = this.data[field];
+        if (value === undefined) return undefined;
+        if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+            throw this.error(field, 'a list of strings');
+        }
+        return [...value];
+    }
+
+    optionalVector(field: string): [number, number, number] | undefined {
+        const value = this.data[field];
+        if (value === undefined) return undefined;
+        if (!Array.isArray(value) || value.length !== 3 || !value.every(item => typeof item === 'number')) {
+            throw this.error(field, 'a list of three numbers');
+        }
+        return [value[0], value[1], value[2]];
+    }
+
+    oneOf<T extends string>(field: string, allowed: readonly T[]): T {
+        const value = this.data[field];
+        const match = allowed.find(option => option === value);
+        if (match === undefined) throw this.error(field, `one of ${allowed.join(', ')}`);
+        return match;
+    }
+
+    /**
+     * A nested object
+     */
+    object(field: string): PrefabData {
+        return new PrefabData(this.data[field] ?? null, `${this.where} field '${field}'`);
+    }
+
+    /**
+     * A nested list of objects
+     */
+    objects(field: string): PrefabData[] {
+        const value = this.data[field];
+        if (!Array.isArray(value)) throw this.error(field, 'a list');
+        return value.map((item, index) => new PrefabData(item, `${this.where} field '${field}' item ${index}`));
+    }
+
+    /**
+     * Every field, for data keyed by name (costs, components)
+     */
+    entries(): [string, unknown][] {
+        return Object.entries(this.data);
+    }
+
+    private error(field: string, expected: string): PrefabError {
+        return new PrefabError(`${this.where}: '${field}' must be ${expected}`);
+    }
+}
+
+interface RegisteredBuilder {
+    parse(data: PrefabData): unknown;
+    create(data: PrefabData): Component;
+}
+
+const componentBuilders = new Map<string, RegisteredBuilder>();
+
+function addComponentBuilder<T>(key: string, builder: PrefabComponentBuilder<T>): void {
+    componentBuilders.set(key, {
+        parse: (data) => builder.parse(data),
+        create: (data) => builder.build(builder.parse(data))
+    });
+}
+
+addComponentBuilder<MovementPrefabData>(MovementComponent.TYPE, {
+    parse: (d) => ({ speed: d.optionalNumber('speed'), rotationSpeed: d.optionalNumber('rotationSpeed'), arrivalThreshold: d.optionalNumber('arrivalThreshold') }),
+    build: (d) => new MovementComponent(d.speed, d.rotationSpeed, d.arrivalThreshold)
+});
+addComponentBuilder<SelectablePrefabData>(SelectableComponent.TYPE, {
+    parse: (d) => ({ selectionColor: d.optionalColor('selectionColor') }),
+    build: (d) => new SelectableComponent(d.selectionColor)
+});
+addComponentBuilder<GatheringPrefabData>(GatheringComponent.TYPE, {
+    parse: (d) => ({ gatherRate: d.optionalNumber('gatherRate'), carryCapacity: d.optionalNumber('carryCapacity'), autoGather: d.optionalBoolean('autoGather') }),
+    build: (d) => new GatheringComponent(d.gatherRate, d.carryCapacity, d.autoGather)
+});
+addComponentBuilder<ResourcePrefabData>(ResourceComponent.TYPE, {
+    parse: (d) => ({ type: d.string('type'), amount: d.number('amount'), maxGatherers: d.optionalNumber('maxGatherers') }),
+    build: (d) => new ResourceComponent(d.type, d.amount, d.maxGatherers)
+});
+addComponentBuilder<BuildingPrefabData>(BuildingComponent.TYPE, {
+    parse: (d) => ({ buildingType: d.oneOf('buildingType', BUILDING_TYPES), buildTime: d.optionalNumber('buildTime') }),
+    build: (d) => new BuildingComponent(d.buildingType, d.buildTime)
+});
+addComponentBuilder<ProductionQueuePrefabData>(ProductionQueueComponent.TYPE, {
+    parse: (d) => ({ productionRate: d.optionalNumber('productionRate'), maxQueueSize: d.optionalNumber('maxQueueSize') }),
+    build: (d) => new ProductionQueueComponent(d.productionRate, d.maxQueueSize)
+});
+addComponentBuilder<SupplyPrefabData>(SupplyComponent.TYPE, {
+    parse: (d) => ({ cost: d.optionalNumber('cost'), provided: d.optionalNumber('provided') }),
+    build: (d) => new SupplyComponent(d.cost, d.provided)
+});
+addComponentBuilder<DropOffPrefabData>(DropOffComponent.TYPE, {
+    parse: (d) => ({ accepts: d.optionalStrings('accepts') }),
+    build: (d) => new DropOffComponent(d.accepts ?? null)
+});
+
+/**
+ * PrefabRegistry
+ * Holds prefab definitions and spawns entities from them.
+ * Without a scene (headless simulation) no meshes are created.
+ */
+export class PrefabRegistry {
+    private world: World;
+    private scene: THREE.Object3D | null;
+    private prefabs: Map<string, PrefabDefinition> = new Map();
+
+    constructor(world: World, scene: THREE.Object3D | null = null) {
+        this.world = world;
+        this.scene = scene;
+    }
+
+    /**
+     * Create a registry loaded with the bundled prefab definitions
+     */
+    static withDefaults(world: World, scene: THREE.Object3D | null = null): PrefabRegistry {
+        const registry = new PrefabRegistry(world, scene);
+        registry.load(defaultPrefabs.prefabs);
+        return registry;
+    }
+
+    /**
+     * Register how a component key is built from prefab data
+     */
+    static registerComponentBuilder<T>(key: string, builder: PrefabComponentBuilder<T>): void {
+        if (componentBuilders.has(key)) {
+            throw new PrefabError(`A prefab builder for component '${key}' is already registered`);
+        }
+        addComponentBuilder(key, builder);
+    }
+
+    /**
+     * Check and add prefab definitions, e.g. parsed from JSON
+     * @throws PrefabError on duplicate ids, unknown component keys or
+     * malformed fields
+     */
+    load(definitions: readonly unknown[]): void {
+        for (const data of definitions) {
+            const definition = parseDefinition(data);
+            if (this.prefabs.has(definition.id)) {
+                throw new PrefabError(`Duplicate prefab id '${definition.id}'`);
+            }
+            this.prefabs.set(definition.id, definition);
+        }
+    }
+
+    has(id: string): boolean {
+        return this.prefabs.has(id);
+    }
+
+    /**
+     * Whether an id names a prefab of the given category
+     */
+    isCategory(id: string, category: PrefabDefinition['category']): boolean {
+        return this.prefabs.get(id)?.category === category;
+    }
+
+    /**
+     * Get a prefab definition
+     * @throws PrefabError if the id is unknown
+     */
+    get(id: string): PrefabDefinition {
+        const definition = this.prefabs.get(id);
+        if (!definition) {
+            throw new PrefabError(`Unknown prefab '${id}'`);
+        }
+        return definition;
+    }
+
+    /**
+     * Get all prefabs of a category
+     */
+    getByCategory(category: PrefabDefinition['category']): PrefabDefinition[] {
+        return Array.from(this.prefabs.values()).filter(prefab => prefab.category === category);
+    }
+
+    /**
+     * Cost of a prefab (free if none is defined)
+     */
+    getCost(id: string): ResourceAmounts {
+        return { ...this.get(id).cost };
+    }
+
+    /**
+     * Supply a prefab takes up once spawned (none if it has no supply component)
+     */
+    getSupplyCost(id: string): number {
+        return this.get(id).components.supply?.cost ?? 0;
+    }
+
+    /**
+     * Spawn an entity from a prefab
+     * @param id Prefab id
+     * @param position Ground position; the height comes from the prefab
+     * @param owner Player id that controls the entity, if any
+     */
+    spawn(id: string, position: { x: number; z: number }, owner: number | null = null): Entity {
+        const definition = this.get(id);
+        const entity = this.world.createEntity();
+        const origin = new THREE.Vector3(position.x, definition.baseHeight, position.z);
+
+        entity.addComponent(new PrefabComponent(id));
+        entity.addComponent(new TransformComponent(origin));
+        if (owner !== null) {
+            entity.addComponent(new OwnerComponent(owner));
+        }
+
+        for (const [key, data] of Object.entries(definition.components)) {
+            const builder = componentBuilders.get(key);
+            if (!builder) {
+                throw new PrefabError(`Prefab '${id}' uses unknown component '${key}'`);
+            }
+            entity.addComponent(builder.create(new PrefabData(data, `Prefab '${id}' component '${key}'`)));
+        }
+
+        if (this.scene && definition.visual) {
+            this.attachVisual(entity, definition.visual, origin, this.scene);
+        }
+
+        return entity;
+    }
+
+    /**
+     * Build a standalone visual for a prefab (e.g. a placement preview)
+     */
+    createVisual(id: string): THREE.Mesh | THREE.Group {
+        const visual = this.get(id).visual;
+        if (!visual) {
+            throw new PrefabError(`Prefab '${id}' has no visual`);
+        }
+        return createVisualObject(visual);
+    }
+
+    private attachVisual(entity: Entity, visual: VisualDefinition, origin: THREE.Vector3, scene: THREE.Object3D): void {
+        const object = createVisualObject(visual);
+        object.position.copy(origin);
+        object.userData.entityId = entity.id;
+        scene.add(object);
+
+        entity.addComponent(new RenderableComponent(object));
+
+        const selectable = entity.getComponent(SelectableComponent);
+        if (selectable && visual.selectionRing) {
+            const ring = createSelectionRing(visual.selectionRing);
+            ring.position.set(origin.x, 0.05, origin.z); // Just above ground
+            scene.add(ring);
+            selectable.setSelectionIndicator(ring);
+        }
+    }
+}
+
+function parseDefinition(raw: unknown): PrefabDefinition {
+    // Read the id first so later errors can name the prefab
+    const id = new PrefabData(raw, 'Prefab definition').string('id');
+    const where = `Prefab '${id}'`;
+    const definition = new PrefabData(raw, where);
+
+    const components: PrefabComponents = {};
+    for (const [key, componentData] of definition.object('components').entries()) {
+        const builder = componentBuilders.get(key);
+        if (!builder) {
+            throw new PrefabError(`${where} uses unknown component '${key}'`);
+        }
+        components[key] = builder.parse(new PrefabData(componentData, `${where} component '${key}'`));
+    }
+
+    return {
+        id,
+        name: definition.string('name'),
+        category: definition.oneOf('category', CATEGORIES),
+        cost: definition.has('cost') ? parseCost(definition.object('cost')) : undefined,
+        baseHeight: definition.number('baseHeight'),
+        footprint: definition.optionalNumber('footprint'),
+        components,
+        visual: definition.has('visual') ? parseVisual(definition.object('visual')) : undefined
+    };
+}
+
+function parseCost(data: PrefabData): ResourceAmounts {
+    const cost: ResourceAmounts = {};
+    for (const [type] of data.entries()) {
+        cost[type] = data.number(type);
+    }
+    return cost;
+}
+
+function parseVisual(data: PrefabData): VisualDefinition {
+    const ring = data.has('selectionRing') ? data.object('selectionRing') : null;
+    return {
+        parts: data.objects('parts').map(parseVisualPart),
+        selectionRing: ring ? { radius: ring.number('radius'), color: ring.string('color') } : undefined,
+        depleted: data.has('depleted') ? data.objects('depleted').map(parseVisualPart) : undefined
+    };
+}
+
+function parseVisualPart(data: PrefabData): VisualPartDefinition {
+    return {
+        shape: data.oneOf('shape', VISUAL_SHAPES),
+        size: data.optionalVector('size'),
+        radius: data.optionalNumber('radius'),
+        height: data.optionalNumber('height'),
+        color: data.string('color'),
+        metalness: data.optionalNumber('metalness'),
+        roughness: data.optionalNumber('roughness'),
+        offset: data.optionalVector('offset'),
+        castShadow: data.optionalBoolean('castShadow'),
+        receiveShadow: data.optionalBoolean('receiveShadow')
+    };
+}
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+
+export const VISUAL_SHAPES = ['box', 'cylinder', 'cone', 'sphere'] as const;
+
+/**
+ * One primitive of a prefab's visual
+ */
+export interface VisualPartDefinition {
+    shape: typeof VISUAL_SHAPES[number];
+    /** Box dimensions [width, height, depth] */
+    size?: [number, number, number];
+    /** Radius for cylinders, cones and spheres */
+    radius?: number;
+    /** Height for cylinders and cones */
+    height?: number;
+    color: string;
+    metalness?: number;
+    roughness?: number;
+    /** Offset from the entity origin */
+    offset?: [number, number, number];
+    castShadow?: boolean;
+    receiveShadow?: boolean;
+}
+
+/**
+ * Visual descriptor of a prefab
+ */
+export interface VisualDefinition {
+    parts: VisualPartDefinition[];
+    /** Ring shown under the entity while it is selected */
+    selectionRing?: { radius: number; color: string };
+    /** Parts of a resource node once depleted (a stump, rubble); offsets are from the ground */
+    depleted?: VisualPartDefinition[];
+}
+
+/**
+ * Build the Three.js object for a visual descriptor.
+ * A single part becomes a Mesh, several parts a Group.
+ */
+export function createVisualObject(visual: VisualDefinition): THREE.Mesh | THREE.Group {
+    const meshes = visual.parts.map(createPartMesh);
+
+    if (meshes.length === 1 && !visual.parts[0].offset) {
+        return meshes[0];
+    }
+
+    const group = new THREE.Group();
+    for (const mesh of meshes) {
+        group.add(mesh);
+    }
+    return group;
+}
+
+/**
+ * Build the flat ring used as a selection indicator
+ */
+export function createSelectionRing(ring: { radius: number; color: string }): THREE.Mesh {
+    const geometry = new THREE.TorusGeometry(ring.radius, 0.05, 16, 32);
+    const material = new THREE.MeshBasicMaterial({ color: ring.color });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.rotation.x = Math.PI / 2; // Lay flat on ground
+    return mesh;
+}
+
+function createPartMesh(part: VisualPartDefinition): THREE.Mesh {
+    const material = new THREE.MeshStandardMaterial({
+        color: part.color,
+        ...(part.metalness !== undefined && { metalness: part.metalness }),
+        ...(part.roughness !== undefined && { roughness: part.roughness })
+    });
+
+    const mesh = new THREE.Mesh(createGeometry(part), material);
+    if (part.offset) {
+        mesh.position.fromArray(part.offset);
+    }
+    mesh.castShadow = part.castShadow ?? true;
+    mesh.receiveShadow = part.receiveShadow ?? true;
+    return mesh;
+}
+
+function createGeometry(part: VisualPartDefinition): THREE.BufferGeometry {
+    switch (part.shape) {
+        case 'box': {
+            const [width, height, depth] = part.size ?? [1, 1, 1];
+            return new THREE.BoxGeometry(width, height, depth);
+        }
+        case 'cylinder':
+            return new THREE.CylinderGeometry(part.radius ?? 0.5, part.radius ?? 0.5, part.height ?? 1, 8);
+        case 'cone':
+            return new THREE.ConeGeometry(part.radius ?? 0.5, part.height ?? 1, 8);
+        case 'sphere':
+            return new THREE.SphereGeometry(part.radius ?? 0.5, 16, 12);
+    }
+}
@@ -0,0 +1,68 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { GameSimulation } from './simulation/GameSimulation';
+import { DEFAULT_SCENARIO, Scenario } from './simulation/Scenario';
+import { GameEvent, ResourceAmounts } from './ecs/GameEvents';
+import { SystemProfiler } from './ecs/Profiler';
+
+// ================================================================
+// Headless simulation runner
+// Usage: npm run simulate -- [ticks] [scenario.json] [--profile out.json]
+// ================================================================
+
+const args = process.argv.slice(2);
+const profileFlag = args.indexOf('--profile');
+const profilePath = profileFlag === -1 ? null : args.splice(profileFlag, 2)[1];
+
+const ticks = Number(args[0] ?? 600);
+const scenarioPath = args[1];
+
+if (!Number.isInteger(ticks) || ticks < 0) {
+    console.error(`Invalid tick count: ${args[0]}`);
+    process.exit(1);
+}
+if (profileFlag !== -1 && !profilePath) {
+    console.error('--profile needs an output file');
+    process.exit(1);
+}
+
+const scenario: Scenario = scenarioPath
+    ? JSON.parse(readFileSync(scenarioPath, 'utf8'))
+    : DEFAULT_SCENARIO;
+
+const simulation = new GameSimulation();
+simulation.loadScenario(scenario);
+
+// Tally gameplay events for the summary
+const eventCounts = new Map<GameEvent, number>();
+const trackedEvents: GameEvent[] = ['unitQueued', 'unitTrained', 'resourcesDeposited', 'buildingPlaced', 'buildingConstructed', 'buildingDemolished', 'insufficientResources', 'supplyBlocked', 'resourceDepleted', 'resourceRegrown', 'commandRejected'];
+for (const event of trackedEvents) {
+    simulation.world.events.on(event, () => eventCounts.set(event, (eventCounts.get(event) ?? 0) + 1));
+}
+
+// Each tick counts as one profiler frame
+const profiler = profilePath ? new SystemProfiler(ticks) : null;
+simulation.world.getSystemManager().setProfiler(profiler);
+
+const started = performance.now();
+for (let i = 0; i < ticks; i++) {
+    simulation.tick();
+    profiler?.endFrame(simulation.tickDuration);
+}
+const elapsed = performance.now() - started;
+
+const stats = simulation.world.getStats();
+console.log(`Scenario '${scenario.name}': ${ticks} ticks (${(ticks / simulation.tickRate).toFixed(1)}s simulated) in ${elapsed.toFixed(1)}ms`);
+for (const player of simulation.players.getAll()) {
+    const amounts = simulation.resourceTypes.getAll().map(type => `${type.id} ${player.resources[type.id] ?? 0}`);
+    console.log(`${player.name}: ${amounts.join(', ')}`);
+    const totals = simulation.ledger.getTotals(player.id);
+    const format = (amounts: ResourceAmounts) => simulation.resourceTypes.format(amounts, 'none');
+    console.log(`  income ${format(totals.income)}; spent ${format(totals.expense)}; refunded ${format(totals.refund)}`);
+}
+console.log(`Entities: ${stats.entityCount}, systems: ${stats.systemCount}`);
+console.log(`Events: ${trackedEvents.map(event => `${event} ${eventCounts.get(event) ?? 0}`).join(', ')}`);
+
+if (profiler && profilePath) {
+    writeFileSync(profilePath, JSON.stringify(profiler.dump(stats), null, 2));
+    console.log(`Profile written to ${profilePath}`);
+}
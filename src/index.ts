@@ -1 +1 @@
-export { UnitFactory } from './UnitFactory';
+export { PrefabRegistry } from './factories/PrefabRegistry';
@@ -0,0 +1,205 @@
+import { System, SystemPhase } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { BuildingType } from '../ecs/components/BuildingComponent';
+import { PrefabRegistry } from '../factories/PrefabRegistry';
+import { BuildingPlacementRules } from '../simulation/BuildingPlacementRules';
+import { CommandSink } from '../simulation/Commands';
+import * as THREE from 'three';
+
+/**
+ * BuildingPlacementSystem is the browser adapter for construction:
+ * build menu buttons, the ghost preview and the placement click.
+ * Costs and validity come from BuildingPlacementRules; the placement
+ * itself is issued as a build command.
+ */
+export class BuildingPlacementSystem implements System {
+    readonly name = 'BuildingPlacementSystem';
+    requiredComponents = [];
+    // The ghost building follows the cursor every frame, not every tick
+    phase = SystemPhase.RENDER;
+    enabled = true;
+    priority = 0;
+    /** Player whose resources the pre-checks look at */
+    localPlayerId: number = 0;
+
+    private rules: BuildingPlacementRules;
+    private commands: CommandSink;
+    private prefabs: PrefabRegistry;
+    private scene: THREE.Scene;
+    private camera: THREE.Camera;
+    private renderer: THREE.Renderer;
+
+    private placementMode: boolean = false;
+    private currentBuildingType: BuildingType | null = null;
+    private ghostBuilding: THREE.Object3D | null = null;
+    private raycaster: THREE.Raycaster;
+    private mouse: THREE.Vector2;
+
+    constructor(
+        rules: BuildingPlacementRules,
+        commands: CommandSink,
+        prefabs: PrefabRegistry,
+        scene: THREE.Scene,
+        camera: THREE.Camera,
+        renderer: THREE.Renderer
+    ) {
+        this.rules = rules;
+        this.commands = commands;
+        this.prefabs = prefabs;
+        this.scene = scene;
+        this.camera = camera;
+        this.renderer = renderer;
+        this.raycaster = new THREE.Raycaster();
+        this.mouse = new THREE.Vector2();
+    }
+
+    update(_deltaTime: number, _entities: readonly Entity[]): void {
+        if (this.placementMode && this.ghostBuilding) {
+            this.updateGhostPosition();
+        }
+    }
+
+    init(): void {
+        console.log('BuildingPlacementSystem initialized');
+        this.setupUI();
+        this.setupEventListeners();
+    }
+
+    cleanup(): void {
+        console.log('BuildingPlacementSystem cleanup');
+        if (this.ghostBuilding) {
+            this.scene.remove(this.ghostBuilding);
+        }
+    }
+
+    private setupUI(): void {
+        const buttons: [string, BuildingType][] = [
+            ['build-townhall', 'townhall'],
+            ['build-barracks', 'barracks'],
+            ['build-house', 'house'],
+            ['build-lumber-mill', 'lumber_mill'],
+            ['build-mine-camp', 'mine_camp']
+        ];
+
+        for (const [id, buildingType] of buttons) {
+            const button = document.getElementById(id);
+            if (button) {
+                button.addEventListener('click', () => this.enterPlacementMode(buildingType));
+            }
+        }
+
+        const cancelBtn = document.getElementById('cancel-construction');
+        if (cancelBtn) {
+            cancelBtn.addEventListener('click', () => {
+                this.commands.enqueue({ type: 'demolish', buildingId: null });
+            });
+        }
+    }
+
+    private setupEventListeners(): void {
+        const canvas = this.renderer.domElement;
+
+        canvas.addEventListener('mousemove', (event) => {
+            if (!this.placementMode) return;
+
+            const rect = canvas.getBoundingClientRect();
+            this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+            this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+        });
+
+        canvas.addEventListener('click', (event) => {
+            if (this.placementMode && event.button === 0) {
+                this.placeBuilding();
+            }
+        });
+
+        window.addEventListener('keydown', (event) => {
+            if (event.key === 'Escape' && this.placementMode) {
+                this.exitPlacementMode();
+            }
+        });
+    }
+
+    private enterPlacementMode(buildingType: BuildingType): void {
+        if (!this.rules.canAfford(buildingType, this.localPlayerId)) {
+            this.rules.reportInsufficientResources(buildingType, this.localPlayerId);
+            return;
+        }
+
+        this.placementMode = true;
+        this.currentBuildingType = buildingType;
+        this.createGhostBuilding(buildingType);
+    }
+
+    private exitPlacementMode(): void {
+        this.placementMode = false;
+        this.currentBuildingType = null;
+
+        if (this.ghostBuilding) {
+            this.scene.remove(this.ghostBuilding);
+            this.ghostBuilding = null;
+        }
+    }
+
+    private createGhostBuilding(buildingType: BuildingType): void {
+        this.ghostBuilding = this.prefabs.createVisual(buildingType);
+        this.ghostBuilding.traverse(object => {
+            if (object instanceof THREE.Mesh) {
+                const material = object.material as THREE.MeshStandardMaterial;
+                material.transparent = true;
+                material.opacity = 0.5;
+            }
+        });
+        this.ghostBuilding.position.y = this.prefabs.get(buildingType).baseHeight;
+        this.scene.add(this.ghostBuilding);
+    }
+
+    private updateGhostPosition(): void {
+        if (!this.ghostBuilding) return;
+
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+
+        const groundObjects = this.scene.children.filter(obj =>
+            obj.userData.isGround === true
+        );
+
+        const intersects = this.raycaster.intersectObjects(groundObjects, false);
+
+        if (intersects.length > 0) {
+            const point = intersects[0].point;
+            this.ghostBuilding.position.x = point.x;
+            this.ghostBuilding.position.z = point.z;
+
+            const isValid = this.rules.isValidPlacement(point);
+            this.ghostBuilding.traverse(object => {
+                if (object instanceof THREE.Mesh) {
+                    (object.material as THREE.MeshStandardMaterial).color.setHex(isValid ? 0x00ff00 : 0xff0000);
+                }
+            });
+        }
+    }
+
+    private placeBuilding(): void {
+        if (!this.ghostBuilding || !this.currentBuildingType) return;
+
+        const position = this.ghostBuilding.position;
+
+        // Pre-check so the ghost stays up for another try; the command is
+        // validated again when the simulation applies it
+        if (!this.rules.canAfford(this.currentBuildingType, this.localPlayerId)) {
+            this.rules.reportInsufficientResources(this.currentBuildingType, this.localPlayerId);
+            return;
+        }
+        if (!this.rules.isValidPlacement(position)) {
+            return;
+        }
+
+        this.commands.enqueue({
+            type: 'build',
+            buildingType: this.currentBuildingType,
+            x: position.x,
+            z: position.z
+        });
+        this.exitPlacementMode();
+    }
+}
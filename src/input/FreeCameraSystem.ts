@@ -0,0 +1,69 @@
+import { System, SystemPhase } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import * as THREE from 'three';
+
+/**
+ * FreeCameraSystem lets the camera roam independently of the game,
+ * used while watching replays: WASD/arrow keys pan, Q/E rotate and the
+ * mouse wheel zooms
+ */
+export class FreeCameraSystem implements System {
+    readonly name = 'FreeCameraSystem';
+    requiredComponents = [];
+    phase = SystemPhase.RENDER;
+    // Only active while a replay is playing
+    enabled = false;
+    priority = 0;
+
+    private camera: THREE.Camera;
+    private panSpeed: number;
+    private rotateSpeed: number;
+    private heldKeys: Set<string> = new Set();
+    private zoomSteps: number = 0;
+    private forward: THREE.Vector3 = new THREE.Vector3();
+    private right: THREE.Vector3 = new THREE.Vector3();
+
+    constructor(camera: THREE.Camera, panSpeed: number = 30, rotateSpeed: number = 1.5) {
+        this.camera = camera;
+        this.panSpeed = panSpeed;
+        this.rotateSpeed = rotateSpeed;
+    }
+
+    init(): void {
+        window.addEventListener('keydown', (event) => this.heldKeys.add(event.key.toLowerCase()));
+        window.addEventListener('keyup', (event) => this.heldKeys.delete(event.key.toLowerCase()));
+        window.addEventListener('blur', () => this.heldKeys.clear());
+        window.addEventListener('wheel', (event) => {
+            if (this.enabled) {
+                this.zoomSteps += Math.sign(event.deltaY);
+            }
+        });
+    }
+
+    update(deltaTime: number, _entities: readonly Entity[]): void {
+        // Pan along the ground plane relative to where the camera looks
+        this.camera.getWorldDirection(this.forward);
+        this.forward.y = 0;
+        this.forward.normalize();
+        this.right.crossVectors(this.forward, this.camera.up).normalize();
+
+        const pan = this.panSpeed * deltaTime;
+        if (this.isHeld('w', 'arrowup')) this.camera.position.addScaledVector(this.forward, pan);
+        if (this.isHeld('s', 'arrowdown')) this.camera.position.addScaledVector(this.forward, -pan);
+        if (this.isHeld('d', 'arrowright')) this.camera.position.addScaledVector(this.right, pan);
+        if (this.isHeld('a', 'arrowleft')) this.camera.position.addScaledVector(this.right, -pan);
+
+        if (this.isHeld('q')) this.camera.rotateOnWorldAxis(this.camera.up, this.rotateSpeed * deltaTime);
+        if (this.isHeld('e')) this.camera.rotateOnWorldAxis(this.camera.up, -this.rotateSpeed * deltaTime);
+
+        if (this.zoomSteps !== 0) {
+            const view = this.camera.getWorldDirection(new THREE.Vector3());
+            this.camera.position.addScaledVector(view, -this.zoomSteps * 2);
+            this.zoomSteps = 0;
+        }
+    }
+
+    private isHeld(...keys: string[]): boolean {
+        return keys.some(key => this.heldKeys.has(key));
+    }
+}
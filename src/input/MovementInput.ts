@@ -0,0 +1,178 @@
+import { World } from '../ecs/World';
+import { EntityId } from '../ecs/EntityId';
+import { CommandSink } from '../simulation/Commands';
+import { GatheringComponent } from '../ecs/components/GatheringComponent';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { BuildingComponent } from '../ecs/components/BuildingComponent';
+import { ComponentClass } from '../ecs/Component';
+import { RenderableComponent } from '../ecs/components/RenderableComponent';
+import { SelectionSystem } from './SelectionSystem';
+import * as THREE from 'three';
+
+/**
+ * MovementInput turns right-clicks into orders for the selected unit:
+ * gather when a worker is sent to a resource node, construct when it is
+ * sent to a construction site, move otherwise.
+ * The S key issues a stop command and G toggles a worker's auto-gather.
+ */
+export class MovementInput {
+  private world: World;
+  private commands: CommandSink;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private selectionSystem: SelectionSystem;
+  private raycaster: THREE.Raycaster;
+  private mouse: THREE.Vector2;
+  private ground: THREE.Mesh | null = null;
+
+  constructor(
+    world: World,
+    commands: CommandSink,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    selectionSystem: SelectionSystem
+  ) {
+    this.world = world;
+    this.commands = commands;
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.selectionSystem = selectionSystem;
+    this.raycaster = new THREE.Raycaster();
+    this.mouse = new THREE.Vector2();
+
+    // Find the ground plane for raycasting
+    this.findGround();
+
+    // Setup right-click listener for movement commands
+    this.setupEventListeners();
+  }
+
+  private findGround(): void {
+    // Look for the ground mesh in the scene
+    this.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh && object.userData.isGround) {
+        this.ground = object;
+      }
+    });
+  }
+
+  private setupEventListeners(): void {
+    // Prevent context menu on right-click
+    window.addEventListener('contextmenu', (event: MouseEvent) => {
+      event.preventDefault();
+    });
+
+    // Handle right-click for movement
+    window.addEventListener('mousedown', (event: MouseEvent) => {
+      if (event.button === 2) { // Right click
+        this.handleMovementCommand(event);
+      }
+    });
+
+    window.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 's' || event.key === 'S') {
+        const selectedEntityId = this.selectionSystem.getSelectedEntity();
+        if (selectedEntityId !== null) {
+          this.commands.enqueue({ type: 'stop', entityIds: [selectedEntityId] });
+        }
+      } else if (event.key === 'g' || event.key === 'G') {
+        this.toggleAutoGather();
+      }
+    });
+  }
+
+  private handleMovementCommand(event: MouseEvent): void {
+    const selectedEntityId = this.selectionSystem.getSelectedEntity();
+    if (selectedEntityId === null) {
+      return; // No unit selected
+    }
+
+    // Calculate mouse position
+    const canvas = this.renderer.domElement;
+    const rect = canvas.getBoundingClientRect();
+    this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+
+    const isWorker = this.world.getEntity(selectedEntityId)?.hasComponent(GatheringComponent) ?? false;
+
+    // Workers sent to a resource node gather from it
+    const resourceId = this.pickEntity(ResourceComponent);
+    if (resourceId !== null && isWorker) {
+      this.commands.enqueue({
+        type: 'gather',
+        entityIds: [selectedEntityId],
+        resourceId,
+      });
+      return;
+    }
+
+    // Workers sent to a construction site help build it
+    const buildingId = this.pickEntity(BuildingComponent);
+    const site = buildingId === null ? undefined : this.world.getEntity(buildingId)?.getComponent(BuildingComponent);
+    if (buildingId !== null && site && !site.isConstructed && isWorker) {
+      this.commands.enqueue({
+        type: 'construct',
+        entityIds: [selectedEntityId],
+        buildingId,
+      });
+      return;
+    }
+
+    // Raycast to find ground intersection
+    if (!this.ground) {
+      this.findGround();
+      if (!this.ground) {
+        console.warn('Ground not found');
+        return;
+      }
+    }
+
+    const intersects = this.raycaster.intersectObject(this.ground);
+    
+    if (intersects.length > 0) {
+      const targetPosition = intersects[0].point;
+      this.commands.enqueue({
+        type: 'move',
+        entityIds: [selectedEntityId],
+        x: targetPosition.x,
+        z: targetPosition.z,
+      });
+    }
+  }
+
+  /**
+   * Entity with the given component under the mouse, if any
+   */
+  private pickEntity(component: ComponentClass): EntityId | null {
+    const candidates = this.world.queryEntities(component, RenderableComponent);
+    const meshes = candidates.map(entity => entity.requireComponent(RenderableComponent).mesh);
+    const intersects = this.raycaster.intersectObjects(meshes);
+    if (intersects.length === 0) return null;
+
+    // Visuals may be groups; the entity id is stored on the root object
+    let object: THREE.Object3D | null = intersects[0].object;
+    while (object && object.userData.entityId === undefined) {
+      object = object.parent;
+    }
+    return object ? object.userData.entityId : null;
+  }
+
+  private toggleAutoGather(): void {
+    const selectedEntityId = this.selectionSystem.getSelectedEntity();
+    if (selectedEntityId === null) return;
+
+    const gathering = this.world.getEntity(selectedEntityId)?.getComponent(GatheringComponent);
+    if (gathering) {
+      this.commands.enqueue({
+        type: 'autoGather',
+        entityIds: [selectedEntityId],
+        enabled: !gathering.autoGather,
+      });
+    }
+  }
+}
@@ -1,31 +1,35 @@
-import { System } from '../ecs/System';
+import { System, SystemPhase } from '../ecs/System';
 import { World } from '../ecs/World';
 import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
 import { SelectableComponent } from '../ecs/components/SelectableComponent';
 import { RenderableComponent } from '../ecs/components/RenderableComponent';
-import { TransformComponent } from '../ecs/components/TransformComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
 import * as THREE from 'three';
 
 /**
  * SelectionSystem handles unit selection via mouse clicks
- * Uses raycasting to detect clicks on selectable entities
+ * Uses raycasting to detect clicks on selectable entities.
+ * Only entities the local player owns (or unowned ones) can be selected.
  */
 export class SelectionSystem implements System {
-  requiredComponents = ['Selectable' as const];
+  readonly name = 'SelectionSystem';
+  requiredComponents = [SelectableComponent];
+  phase = SystemPhase.INPUT;
   enabled = true;
   priority = 0;
+  /** Player this client controls */
+  localPlayerId: number = 0;
 
   private world: World;
-  private scene: THREE.Scene;
   private camera: THREE.Camera;
   private renderer: THREE.WebGLRenderer;
   private raycaster: THREE.Raycaster;
   private mouse: THREE.Vector2;
-  private currentlySelected: number | null = null;
+  private currentlySelected: EntityId | null = null;
 
-  constructor(world: World, scene: THREE.Scene, camera: THREE.Camera, renderer: THREE.WebGLRenderer) {
+  constructor(world: World, camera: THREE.Camera, renderer: THREE.WebGLRenderer) {
     this.world = world;
-    this.scene = scene;
     this.camera = camera;
     this.renderer = renderer;
     this.raycaster = new THREE.Raycaster();
@@ -33,6 +37,13 @@ export class SelectionSystem implements System {
 
     // Bind click handler
     this.setupEventListeners();
+
+    // Drop the selection when the selected entity is destroyed
+    this.world.on('entityDestroyed', (entity) => {
+      if (entity.id === this.currentlySelected) {
+        this.currentlySelected = null;
+      }
+    });
   }
 
   private setupEventListeners(): void {
@@ -55,16 +66,16 @@ export class SelectionSystem implements System {
     this.raycaster.setFromCamera(this.mouse, this.camera);
 
     // Get all selectable entities
-    const selectableEntities = this.world.queryEntities('Selectable');
+    const selectableEntities = this.world.queryEntities(SelectableComponent, RenderableComponent);
     
     // Build array of meshes to test
-    const selectableMeshes: { mesh: THREE.Mesh; entityId: number }[] = [];
+    const selectableMeshes: { mesh: THREE.Object3D; entityId: EntityId }[] = [];
     
     for (const entity of selectableEntities) {
-      const renderable = entity.getComponent<RenderableComponent>('Renderable');
-      if (renderable && renderable.mesh) {
-        selectableMeshes.push({ mesh: renderable.mesh, entityId: entity.id });
-      }
+      const owner = entity.getComponent(OwnerComponent);
+      if (owner && owner.playerId !== this.localPlayerId) continue;
+      const renderable = entity.requireComponent(RenderableComponent);
+      selectableMeshes.push({ mesh: renderable.mesh, entityId: entity.id });
     }
 
     // Perform raycast
@@ -76,26 +87,27 @@ export class SelectionSystem implements System {
     if (this.currentlySelected !== null) {
       const previousEntity = this.world.getEntity(this.currentlySelected);
       if (previousEntity) {
-        const selectable = previousEntity.getComponent<SelectableComponent>('Selectable');
+        const selectable = previousEntity.getComponent(SelectableComponent);
         if (selectable) {
-          selectable.setSelected(false);
+          selectable.deselect();
         }
       }
     }
 
     // Select new entity if clicked
     if (intersects.length > 0) {
-      const clickedMesh = intersects[0].object as THREE.Mesh;
-      const selectedItem = selectableMeshes.find(sm => sm.mesh === clickedMesh);
+      const clickedObject = intersects[0].object;
+      const selectedItem = selectableMeshes.find(sm =>
+        sm.mesh === clickedObject || sm.mesh.getObjectById(clickedObject.id) !== undefined
+      );
       
       if (selectedItem) {
         const entity = this.world.getEntity(selectedItem.entityId);
         if (entity) {
-          const selectable = entity.getComponent<SelectableComponent>('Selectable');
+          const selectable = entity.getComponent(SelectableComponent);
           if (selectable) {
-            selectable.setSelected(true);
+            selectable.select();
             this.currentlySelected = entity.id;
-            console.log(`Selected unit ${entity.id}`);
           }
         }
       }
@@ -105,15 +117,19 @@ export class SelectionSystem implements System {
     }
   }
 
-  update(deltaTime: number, entities: Entity[]): void {
+  update(_deltaTime: number, _entities: readonly Entity[]): void {
     // Selection is handled via events, no per-frame update needed
     // But we could add hover effects here in the future
   }
 
   /**
-   * Get the currently selected entity ID
+   * Get the currently selected entity handle.
+   * A selection whose entity was destroyed is dropped here.
    */
-  getSelectedEntity(): number | null {
+  getSelectedEntity(): EntityId | null {
+    if (this.currentlySelected !== null && !this.world.isAlive(this.currentlySelected)) {
+      this.currentlySelected = null;
+    }
     return this.currentlySelected;
   }
 }
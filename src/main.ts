@@ -1,24 +1,32 @@
 import * as THREE from 'three';
-import { World } from './ecs/World';
-import { SelectionSystem } from './systems/SelectionSystem';
-import { MovementSystem } from './systems/MovementSystem';
-import { ResourceGatheringSystem } from './systems/ResourceGatheringSystem';
-import { BuildingPlacementSystem } from './systems/BuildingPlacementSystem';
-import { ProductionSystem } from './systems/ProductionSystem';
-import { UnitFactory } from './factories/UnitFactory';
-import { ResourceFactory } from './factories/ResourceFactory';
-import { GatheringComponent } from './ecs/components/GatheringComponent';
+import { GameSimulation } from './simulation/GameSimulation';
+import { Scenario } from './simulation/Scenario';
+import { SelectionSystem } from './input/SelectionSystem';
+import { MovementInput } from './input/MovementInput';
+import { BuildingPlacementSystem } from './input/BuildingPlacementSystem';
+import { RenderSyncSystem } from './systems/RenderSyncSystem';
+import { ResourceSlotIndicatorSystem } from './systems/ResourceSlotIndicatorSystem';
+import { ResourceVisualSystem } from './systems/ResourceVisualSystem';
+import { ProductionMenu } from './ui/ProductionMenu';
+import { ResourceHud } from './ui/ResourceHud';
+import { LedgerPanel } from './ui/LedgerPanel';
+import { SaveMenu } from './ui/SaveMenu';
+import { GameMessages } from './ui/GameMessages';
+import { ReplayControls } from './ui/ReplayControls';
+import { ReplayRecorder } from './replay/ReplayRecorder';
+import { FreeCameraSystem } from './input/FreeCameraSystem';
+import { LobbyMenu } from './ui/LobbyMenu';
+import { LockstepSession } from './multiplayer/LockstepSession';
+import { CommandSink } from './simulation/Commands';
+import { buildMatchScenario, getMap } from './simulation/Maps';
+import { ProfilerPanel } from './ui/ProfilerPanel';
+import { EntityInspector } from './ui/EntityInspector';
+import { FixedTimestep } from './core/FixedTimestep';
 
 // ================================================================
 // ON-SCREEN DIAGNOSTIC OVERLAY
 // ================================================================
 
-interface DiagnosticMessage {
-    status: 'success' | 'error' | 'pending';
-    message: string;
-    error?: string;
-}
-
 class DiagnosticOverlay {
     private overlay: HTMLDivElement;
     private messageList: HTMLDivElement;
@@ -122,6 +130,13 @@ class DiagnosticOverlay {
     hasReportedErrors(): boolean {
         return this.hasErrors;
     }
+
+    /**
+     * Append an extra panel (e.g. the profiler) below the FPS display
+     */
+    addSection(element: HTMLElement) {
+        this.overlay.appendChild(element);
+    }
 }
 
 // ================================================================
@@ -185,6 +200,7 @@ try {
     const ground = new THREE.Mesh(groundGeometry, groundMaterial);
     ground.rotation.x = -Math.PI / 2;
     ground.name = 'ground';
+    ground.userData.isGround = true;
     scene.add(ground);
 
     diagnostic.log('success', 'Ground added to scene');
@@ -194,15 +210,17 @@ try {
     // ================================================================
 
     diagnostic.log('pending', 'Creating ECS world...');
-    const world = new World();
+    const simulation = new GameSimulation({ scene, tickRate: 20 });
+    const world = simulation.world;
     diagnostic.log('success', 'ECS world created');
 
     // ================================================================
-    // Game Resources
+    // Players
     // ================================================================
 
-    const gameResources = { gold: 0, wood: 0 };
-    diagnostic.log('success', 'Game resources initialized');
+    // Player this client controls; changes when a multiplayer match starts
+    let localPlayerId = 0;
+    diagnostic.log('success', 'Local player initialized');
 
     // ================================================================
     // UI
@@ -210,29 +228,6 @@ try {
 
     diagnostic.log('pending', 'Creating UI...');
 
-    const resourceDisplay = document.createElement('div');
-    resourceDisplay.style.cssText = `
-        position: absolute;
-        top: 50%;
-        left: 10px;
-        color: white;
-        font-family: monospace;
-        font-size: 14px;
-        background: rgba(0, 0, 0, 0.7);
-        padding: 10px;
-        border-radius: 5px;
-        z-index: 1000;
-    `;
-    document.body.appendChild(resourceDisplay);
-
-    function updateResourceDisplay() {
-        resourceDisplay.innerHTML = `
-            Gold: ${gameResources.gold}<br>
-            Wood: ${gameResources.wood}
-        `;
-    }
-    updateResourceDisplay();
-
     const instructions = document.createElement('div');
     instructions.style.cssText = `
         position: absolute;
@@ -248,7 +243,9 @@ try {
     `;
     instructions.innerHTML = `
         Left Click: Select Unit<br>
-        Right Click: Move Selected Units<br>
+        Right Click: Move Selected Units / Gather From Resource<br>
+        'S': Stop Selected Unit<br>
+        'G': Toggle Auto-Gather<br>
         'W', 'A', 'D': Move Camera<br>
         'B': Building Mode<br>
         'ESC': Cancel Building
@@ -256,6 +253,11 @@ try {
     `;
     document.body.appendChild(instructions);
 
+    // Button cost labels come from the prefab data
+    document.querySelectorAll<HTMLElement>('[data-cost]').forEach(label => {
+        label.textContent = simulation.resourceTypes.format(simulation.prefabs.getCost(label.dataset.cost!));
+    });
+
     diagnostic.log('success', 'UI created');
 
     // ================================================================
@@ -264,20 +266,91 @@ try {
 
     diagnostic.log('pending', 'Initializing systems...');
 
-    const selectionSystem = new SelectionSystem(world, scene, camera, renderer);
-    diagnostic.log('success', 'SelectionSystem initialized');
+    // Gameplay systems are owned by the simulation; attach browser adapters
+    const systemManager = world.getSystemManager();
+
+    // Input issues orders straight to the simulation, or to the lockstep
+    // session once a multiplayer match is running
+    let session: LockstepSession | null = null;
+    const orders: CommandSink = {
+        enqueue: (command) => (session ?? simulation.commands).enqueue(command)
+    };
 
-    const movementSystem = new MovementSystem(world);
-    diagnostic.log('success', 'MovementSystem initialized');
+    const selectionSystem = new SelectionSystem(world, camera, renderer);
+    systemManager.register(selectionSystem);
+    diagnostic.log('success', 'SelectionSystem initialized');
 
-    const resourceGatheringSystem = new ResourceGatheringSystem(world, gameResources);
-    diagnostic.log('success', 'ResourceGatheringSystem initialized');
+    new MovementInput(world, orders, scene, camera, renderer, selectionSystem);
+    diagnostic.log('success', 'MovementInput initialized');
 
-    const buildingPlacementSystem = new BuildingPlacementSystem(world, scene, camera, renderer, gameResources);
+    const buildingPlacement = new BuildingPlacementSystem(simulation.buildingRules, orders, simulation.prefabs, scene, camera, renderer);
+    systemManager.register(buildingPlacement);
     diagnostic.log('success', 'BuildingPlacementSystem initialized');
 
-    const productionSystem = new ProductionSystem(world, scene, gameResources);
-    diagnostic.log('success', 'ProductionSystem initialized');
+    new ProductionMenu(orders);
+    const resourceHud = new ResourceHud(simulation);
+    diagnostic.log('success', 'ProductionMenu initialized');
+
+    const ledgerPanel = new LedgerPanel(simulation);
+    diagnostic.log('success', 'LedgerPanel initialized');
+
+    const gameMessages = new GameMessages(world);
+    diagnostic.log('success', 'GameMessages initialized');
+
+    new SaveMenu(simulation, gameMessages);
+    diagnostic.log('success', 'SaveMenu initialized');
+
+    const freeCamera = new FreeCameraSystem(camera);
+    systemManager.register(freeCamera);
+    const replayRecorder = new ReplayRecorder(simulation);
+    const replayControls = new ReplayControls(simulation, replayRecorder, freeCamera, gameMessages);
+    diagnostic.log('success', 'ReplayControls initialized');
+
+    const lobbyMenu = new LobbyMenu(({ transport, playerId, message }) => {
+        const map = getMap(message.settings.mapId);
+        const playerIds = message.players.map(player => player.playerId);
+        simulation.loadScenario(buildMatchScenario(map, message.players, message.settings.seed));
+        replayRecorder.startRecording();
+        session?.dispose();
+        session = new LockstepSession(simulation, transport, playerId, message.settings);
+
+        localPlayerId = playerId;
+        selectionSystem.localPlayerId = playerId;
+        buildingPlacement.localPlayerId = playerId;
+        resourceHud.localPlayerId = playerId;
+        ledgerPanel.localPlayerId = playerId;
+        gameMessages.localPlayerId = playerId;
+
+        // Look at our own base
+        const start = map.startPositions[playerIds.indexOf(playerId)];
+        camera.position.set(start.x + 20, 20, start.z + 20);
+        camera.lookAt(start.x, 0, start.z);
+    });
+    diagnostic.log('success', 'LobbyMenu initialized');
+
+    systemManager.register(new RenderSyncSystem(world));
+    diagnostic.log('success', 'RenderSyncSystem initialized');
+
+    systemManager.register(new ResourceVisualSystem(world, scene, simulation.prefabs));
+    diagnostic.log('success', 'ResourceVisualSystem initialized');
+
+    systemManager.register(new ResourceSlotIndicatorSystem(world, scene));
+    diagnostic.log('success', 'ResourceSlotIndicatorSystem initialized');
+
+    const profilerPanel = new ProfilerPanel(world);
+    diagnostic.addSection(profilerPanel.element);
+    const inspector = new EntityInspector(world, scene, camera, renderer);
+    diagnostic.addSection(inspector.element);
+    window.addEventListener('keydown', (event) => {
+        if (event.key === 'F3') {
+            event.preventDefault();
+            profilerPanel.toggle();
+        } else if (event.key === 'F4') {
+            event.preventDefault();
+            inspector.toggle();
+        }
+    });
+    diagnostic.log('success', 'Profiler ready (F3 to toggle), inspector ready (F4 to toggle)');
 
     diagnostic.log('success', 'All systems initialized');
 
@@ -287,21 +360,30 @@ try {
 
     diagnostic.log('pending', 'Creating initial game objects...');
 
-    // Create initial units
-    const unitFactory = new UnitFactory(world, scene);
-    unitFactory.createUnit('unit', 10, 0, 10);
-    unitFactory.createUnit('unit', 15, 0, 10);
+    // A fresh seed per session; the simulation draws every random value
+    // from it, so saves and replays reproduce the same map
+    const scenario: Scenario = {
+        name: 'skirmish',
+        seed: Date.now() >>> 0,
+        resources: { gold: 0, wood: 0 },
+        players: [{ id: localPlayerId, name: 'You' }],
+        units: [
+            { x: 10, z: 10 },
+            { x: 15, z: 10 }
+        ],
+        resourceNodes: [],
+        scatteredResources: [
+            { prefabs: ['gold_mine', 'tree'], count: 20, extent: 40 },
+            { prefabs: ['stone_quarry', 'berry_bush'], count: 8, extent: 40 }
+        ],
+        buildings: [
+            { prefab: 'townhall', x: 0, z: 0 }
+        ]
+    };
+
+    simulation.loadScenario(scenario);
+    replayRecorder.startRecording();
     diagnostic.log('success', 'Initial units created');
-
-    // Create initial resources
-    const resourceFactory = new ResourceFactory(world, scene);
-    for (let i = 0; i < 20; i++) {
-        // Scatter resources around the map
-        const x = Math.random() * 80 - 40;
-        const z = Math.random() * 80 - 40;
-        const type = Math.random() < 0.5 ? 'gold' : 'wood';
-        resourceFactory.createResource(type, x, 0, z);
-    }
     diagnostic.log('success', 'Initial resources created');
 
     diagnostic.log('success', 'Initial game objects created');
@@ -312,7 +394,9 @@ try {
 
     diagnostic.log('success', 'Starting game loop');
 
-    let lastTime = 0;
+    // Simulation runs at a fixed 20 Hz; rendering runs every frame
+    const timestep = new FixedTimestep({ tickRate: simulation.tickRate, maxTicksPerFrame: 5 });
+    let lastTime: number | null = null;
     let fpsFrames = 0;
     let fpsLastTime = 0;
 
@@ -323,7 +407,8 @@ try {
 
         requestAnimationFrame(gameLoop);
 
-        const deltaTime = time - lastTime;
+        // requestAnimationFrame timestamps are in milliseconds
+        const frameSeconds = lastTime === null ? 0 : (time - lastTime) / 1000;
         lastTime = time;
 
         // FPS Calculation
@@ -336,21 +421,38 @@ try {
             fpsLastTime = time;
         }
 
-        // Update systems
-        selectionSystem.update();
-        movementSystem.update(deltaTime);
-        resourceGatheringSystem.update(deltaTime);
-        buildingPlacementSystem.update();
-        productionSystem.update(deltaTime);
+        // Run the simulation ticks that became due, then render.
+        // A replay being watched drives the simulation instead of the player.
+        const replay = replayControls.activePlayer;
+        // Once the relay ends the match the game carries on locally
+        if (session?.ended) {
+            session.dispose();
+            session = null;
+        }
+        if (replay) {
+            replay.advance(frameSeconds);
+            world.render(frameSeconds, replay.alpha);
+            replayControls.update();
+        } else if (session) {
+            session.advance(frameSeconds);
+            world.render(frameSeconds, session.alpha);
+            lobbyMenu.update(session);
+        } else {
+            timestep.advance(frameSeconds, () => simulation.tick());
+            world.render(frameSeconds, timestep.alpha);
+        }
+
+        profilerPanel.update(frameSeconds);
+        inspector.update();
 
-        // Update resource display
-        updateResourceDisplay();
+        resourceHud.update();
+        ledgerPanel.update();
 
         // Render
         renderer.render(scene, camera);
     }
 
-    gameLoop(0);
+    requestAnimationFrame(gameLoop);
 
     diagnostic.log('success', 'Game initialized successfully!');
 } catch (error) {
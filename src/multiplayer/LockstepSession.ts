@@ -0,0 +1,203 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+import { Command, CommandSink } from '../simulation/Commands';
+import { ClientMessage, MatchSettings, ServerMessage, TickHash, TurnBatch } from './Protocol';
+import { computeStateHash } from './StateHash';
+
+/**
+ * Connection to the relay server
+ */
+export interface LockstepTransport {
+    send(message: ClientMessage): void;
+    /**
+     * @returns Function that removes the listener
+     */
+    onMessage(listener: (message: ServerMessage) => void): () => void;
+}
+
+/**
+ * Hashes reported by peers for the first tick where they disagreed
+ */
+export interface DesyncReport {
+    tick: number;
+    hashes: { playerId: number; hash: number }[];
+}
+
+/**
+ * LockstepSession
+ * Runs one peer of a lockstep match. Time is split into turns of a few
+ * ticks; commands issued locally are sent to the relay for the turn
+ * `inputDelay` turns ahead, and a turn only runs once every player's
+ * commands for it have arrived. All peers therefore apply the same
+ * commands on the same ticks and stay in sync by simulating, never by
+ * exchanging state. Each tick's state hash is reported so the relay can
+ * detect desyncs.
+ */
+export class LockstepSession implements CommandSink {
+    public readonly playerId: number;
+    public readonly settings: MatchSettings;
+
+    private simulation: GameSimulation;
+    private transport: LockstepTransport;
+    private maxTicksPerFrame: number;
+    private localCommands: Command[] = [];
+    private receivedTurns: Map<number, TurnBatch[]> = new Map();
+    private pendingHashes: TickHash[] = [];
+    private currentTurn: number = 0;
+    private tickInTurn: number = 0;
+    private accumulator: number = 0;
+    private _desync: DesyncReport | null = null;
+    private departedPlayers: Set<number> = new Set();
+    private _ended: boolean = false;
+    private unsubscribe: () => void;
+
+    constructor(
+        simulation: GameSimulation,
+        transport: LockstepTransport,
+        playerId: number,
+        settings: MatchSettings,
+        maxTicksPerFrame: number = 5
+    ) {
+        this.simulation = simulation;
+        this.transport = transport;
+        this.playerId = playerId;
+        this.settings = settings;
+        this.maxTicksPerFrame = maxTicksPerFrame;
+        this.unsubscribe = transport.onMessage(message => this.handleMessage(message));
+
+        // Nothing can be issued for the first turns; fill them so play can start
+        for (let turn = 0; turn < settings.inputDelay; turn++) {
+            this.transport.send({ type: 'turn', turn, commands: [], hashes: [] });
+        }
+    }
+
+    /**
+     * Queue a local command; it runs `inputDelay` turns from now on every peer
+     */
+    enqueue(command: Command): void {
+        this.localCommands.push({ ...command, playerId: this.playerId });
+    }
+
+    /**
+     * Whether the next tick is waiting for other players' commands
+     */
+    get stalled(): boolean {
+        return this.tickInTurn === 0 && !this.receivedTurns.has(this.currentTurn);
+    }
+
+    /**
+     * Set once the relay reports diverging state hashes
+     */
+    get desync(): DesyncReport | null {
+        return this._desync;
+    }
+
+    /**
+     * Players that disconnected during the match
+     */
+    get departed(): ReadonlySet<number> {
+        return this.departedPlayers;
+    }
+
+    /**
+     * Set once the relay ends the match because too few players are left
+     */
+    get ended(): boolean {
+        return this._ended;
+    }
+
+    /**
+     * Interpolation factor for rendering between ticks
+     */
+    get alpha(): number {
+        return Math.min(this.accumulator / this.simulation.tickDuration, 0.999);
+    }
+
+    /**
+     * Advance by a frame's real time, running every tick whose commands
+     * are available
+     */
+    advance(frameSeconds: number): void {
+        const tickDuration = this.simulation.tickDuration;
+        this.accumulator += Math.max(0, frameSeconds);
+
+        let ticks = 0;
+        while (this.accumulator >= tickDuration && ticks < this.maxTicksPerFrame) {
+            if (!this.stepTick()) break;
+            this.accumulator -= tickDuration;
+            ticks++;
+        }
+
+        // Bank at most one frame's worth of catch-up while waiting on peers
+        this.accumulator = Math.min(this.accumulator, tickDuration * this.maxTicksPerFrame);
+    }
+
+    /**
+     * Run one tick if its turn's commands have arrived
+     * @returns false if the session is waiting for other players
+     */
+    stepTick(): boolean {
+        if (this.tickInTurn === 0 && !this.beginTurn()) {
+            return false;
+        }
+
+        this.simulation.tick();
+        this.pendingHashes.push({ tick: this.simulation.getTick(), hash: computeStateHash(this.simulation) });
+
+        this.tickInTurn++;
+        if (this.tickInTurn >= this.settings.turnTicks) {
+            this.tickInTurn = 0;
+            this.currentTurn++;
+        }
+        return true;
+    }
+
+    /**
+     * Stop listening to the relay
+     */
+    dispose(): void {
+        this.unsubscribe();
+    }
+
+    private beginTurn(): boolean {
+        const batches = this.receivedTurns.get(this.currentTurn);
+        if (!batches) return false;
+        this.receivedTurns.delete(this.currentTurn);
+
+        // Commands issued since the last turn began go out for a future turn,
+        // together with the hashes of the ticks run in the meantime
+        this.transport.send({
+            type: 'turn',
+            turn: this.currentTurn + this.settings.inputDelay,
+            commands: this.localCommands,
+            hashes: this.pendingHashes
+        });
+        this.localCommands = [];
+        this.pendingHashes = [];
+
+        // Same order on every peer; the relay's player id is authoritative
+        const ordered = [...batches].sort((a, b) => a.playerId - b.playerId);
+        for (const batch of ordered) {
+            for (const command of batch.commands) {
+                this.simulation.issue({ ...command, playerId: batch.playerId });
+            }
+        }
+        return true;
+    }
+
+    private handleMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case 'turn':
+                this.receivedTurns.set(message.turn, message.batches);
+                break;
+            case 'desync':
+                this._desync ??= { tick: message.tick, hashes: message.hashes };
+                break;
+            case 'playerLeft':
+                this.departedPlayers.add(message.playerId);
+                break;
+            case 'matchEnded':
+                this._ended = true;
+                break;
+        }
+    }
+}
@@ -0,0 +1,226 @@
+import { Command, CommandError, parseCommand as parseCommandData } from '../simulation/Commands';
+import defaultPrefabs from '../data/prefabs.json';
+
+/**
+ * Messages exchanged between lockstep clients and the relay server.
+ * Everything is plain JSON sent over a WebSocket.
+ */
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+export interface LobbyPlayer {
+    playerId: number;
+    name: string;
+    ready: boolean;
+}
+
+/**
+ * Commands one player issued for a turn
+ */
+export interface TurnBatch {
+    playerId: number;
+    commands: Command[];
+}
+
+/**
+ * World state hash computed after a tick
+ */
+export interface TickHash {
+    tick: number;
+    hash: number;
+}
+
+export interface MatchSettings {
+    mapId: string;
+    /** Seed every peer loads the match with */
+    seed: number;
+    /** Simulation ticks per lockstep turn */
+    turnTicks: number;
+    /** Turns between issuing a command and executing it */
+    inputDelay: number;
+}
+
+export type ClientMessage =
+    | { type: 'join'; name: string }
+    | { type: 'ready'; ready: boolean }
+    | { type: 'selectMap'; mapId: string }
+    | { type: 'start' }
+    | { type: 'turn'; turn: number; commands: Command[]; hashes: TickHash[] };
+
+export type ServerMessage =
+    | { type: 'welcome'; playerId: number }
+    | { type: 'lobby'; players: LobbyPlayer[]; hostId: number; mapId: string }
+    | { type: 'start'; players: LobbyPlayer[]; settings: MatchSettings }
+    | { type: 'turn'; turn: number; batches: TurnBatch[] }
+    | { type: 'desync'; tick: number; hashes: { playerId: number; hash: number }[] }
+    | { type: 'playerLeft'; playerId: number }
+    | { type: 'matchEnded' }
+    | { type: 'error'; message: string };
+
+/**
+ * Error thrown for messages that do not match the protocol
+ */
+export class ProtocolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProtocolError';
+    }
+}
+
+/** Unit prefabs a train command may name */
+const UNIT_TYPES: ReadonlySet<string> = new Set(
+    defaultPrefabs.prefabs.filter(prefab => prefab.category === 'unit').map(prefab => prefab.id)
+);
+
+/**
+ * Check the shape of a message received from a client
+ * @throws ProtocolError if it is not a valid ClientMessage
+ */
+export function parseClientMessage(data: unknown): ClientMessage {
+    const message = requireObject(data, 'Message');
+
+    switch (message.type) {
+        case 'join':
+            return { type: 'join', name: requireString(message.name, 'name') };
+        case 'ready':
+            return { type: 'ready', ready: requireBoolean(message.ready, 'ready') };
+        case 'selectMap':
+            return { type: 'selectMap', mapId: requireString(message.mapId, 'mapId') };
+        case 'start':
+            return { type: 'start' };
+        case 'turn':
+            return {
+                type: 'turn',
+                turn: requireInteger(message.turn, 'turn'),
+                commands: requireArray(message.commands, 'commands').map(parseCommand),
+                hashes: requireArray(message.hashes, 'hashes').map(parseTickHash)
+            };
+        default:
+            throw new ProtocolError(`Unknown message type ${JSON.stringify(message.type)}`);
+    }
+}
+
+/**
+ * Check the shape of a message received from the relay. Malformed
+ * commands inside a turn are dropped rather than failing the whole turn,
+ * so every peer still runs the same (remaining) commands.
+ * @throws ProtocolError if it is not a valid ServerMessage
+ */
+export function parseServerMessage(data: unknown): ServerMessage {
+    const message = requireObject(data, 'Message');
+
+    switch (message.type) {
+        case 'welcome':
+            return { type: 'welcome', playerId: requireInteger(message.playerId, 'playerId') };
+        case 'lobby':
+            return {
+                type: 'lobby',
+                players: requireArray(message.players, 'players').map(parseLobbyPlayer),
+                hostId: requireInteger(message.hostId, 'hostId'),
+                mapId: requireString(message.mapId, 'mapId')
+            };
+        case 'start': {
+            const settings = requireObject(message.settings, 'Settings');
+            return {
+                type: 'start',
+                players: requireArray(message.players, 'players').map(parseLobbyPlayer),
+                settings: {
+                    mapId: requireString(settings.mapId, 'mapId'),
+                    seed: requireInteger(settings.seed, 'seed'),
+                    turnTicks: requireInteger(settings.turnTicks, 'turnTicks'),
+                    inputDelay: requireInteger(settings.inputDelay, 'inputDelay')
+                }
+            };
+        }
+        case 'turn':
+            return {
+                type: 'turn',
+                turn: requireInteger(message.turn, 'turn'),
+                batches: requireArray(message.batches, 'batches').map(parseTurnBatch)
+            };
+        case 'desync':
+            return {
+                type: 'desync',
+                tick: requireInteger(message.tick, 'tick'),
+                hashes: requireArray(message.hashes, 'hashes').map(data => {
+                    const hash = requireObject(data, 'Hash');
+                    return { playerId: requireInteger(hash.playerId, 'playerId'), hash: requireInteger(hash.hash, 'hash') };
+                })
+            };
+        case 'playerLeft':
+            return { type: 'playerLeft', playerId: requireInteger(message.playerId, 'playerId') };
+        case 'matchEnded':
+            return { type: 'matchEnded' };
+        case 'error':
+            return { type: 'error', message: requireString(message.message, 'message') };
+        default:
+            throw new ProtocolError(`Unknown message type ${JSON.stringify(message.type)}`);
+    }
+}
+
+function parseCommand(data: unknown): Command {
+    try {
+        return parseCommandData(data, UNIT_TYPES);
+    } catch (error) {
+        if (error instanceof CommandError) {
+            throw new ProtocolError(error.message);
+        }
+        throw error;
+    }
+}
+
+function parseTurnBatch(data: unknown): TurnBatch {
+    const batch = requireObject(data, 'Batch');
+    const commands: Command[] = [];
+    for (const command of requireArray(batch.commands, 'commands')) {
+        try {
+            commands.push(parseCommandData(command, UNIT_TYPES));
+        } catch (error) {
+            if (!(error instanceof CommandError)) throw error;
+            console.warn('Dropping malformed command from the relay', error);
+        }
+    }
+    return { playerId: requireInteger(batch.playerId, 'playerId'), commands };
+}
+
+function parseLobbyPlayer(data: unknown): LobbyPlayer {
+    const player = requireObject(data, 'Player');
+    return {
+        playerId: requireInteger(player.playerId, 'playerId'),
+        name: requireString(player.name, 'name'),
+        ready: requireBoolean(player.ready, 'ready')
+    };
+}
+
+function parseTickHash(data: unknown): TickHash {
+    const hash = requireObject(data, 'Hash');
+    return { tick: requireInteger(hash.tick, 'tick'), hash: requireInteger(hash.hash, 'hash') };
+}
+
+function requireObject(value: unknown, what: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ProtocolError(`${what} must be an object`);
+    }
+    return { ...value };
+}
+
+function requireString(value: unknown, field: string): string {
+    if (typeof value !== 'string') throw new ProtocolError(`'${field}' must be a string`);
+    return value;
+}
+
+function requireBoolean(value: unknown, field: string): boolean {
+    if (typeof value !== 'boolean') throw new ProtocolError(`'${field}' must be a boolean`);
+    return value;
+}
+
+function requireInteger(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value)) throw new ProtocolError(`'${field}' must be an integer`);
+    return value;
+}
+
+function requireArray(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) throw new ProtocolError(`'${field}' must be an array`);
+    return value;
+}
@@ -0,0 +1,34 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+import { createSnapshot } from '../persistence/WorldSnapshot';
+import { SelectableComponent } from '../ecs/components/SelectableComponent';
+
+/**
+ * Components holding local UI state (what this player has selected),
+ * which legitimately differs between peers
+ */
+const LOCAL_COMPONENTS: readonly string[] = [SelectableComponent.TYPE];
+
+/**
+ * Hash the gameplay state of a simulation (FNV-1a over its snapshot).
+ * Peers running the same commands must produce the same hash every tick;
+ * the first tick where they differ is where a desync started.
+ */
+export function computeStateHash(simulation: GameSimulation): number {
+    const { tick, players, entities } = createSnapshot(simulation);
+    const gameplayEntities = entities.map(entity => ({
+        ...entity,
+        components: Object.fromEntries(
+            Object.entries(entity.components).filter(([key]) => !LOCAL_COMPONENTS.includes(key))
+        )
+    }));
+    return fnv1a(JSON.stringify({ tick, players, entities: gameplayEntities }));
+}
+
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
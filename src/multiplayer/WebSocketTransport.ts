@@ -0,0 +1,67 @@
+import { ClientMessage, ServerMessage, parseServerMessage } from './Protocol';
+import { LockstepTransport } from './LockstepSession';
+
+/**
+ * Browser WebSocket connection to the relay server
+ */
+export class WebSocketTransport implements LockstepTransport {
+    private socket: WebSocket;
+    private listeners: Set<(message: ServerMessage) => void> = new Set();
+    private closeListeners: Set<() => void> = new Set();
+
+    private constructor(socket: WebSocket) {
+        this.socket = socket;
+        this.socket.addEventListener('message', (event) => {
+            let message: ServerMessage;
+            try {
+                message = parseServerMessage(JSON.parse(event.data));
+            } catch (error) {
+                console.warn('Ignoring malformed relay message', error);
+                return;
+            }
+            for (const listener of Array.from(this.listeners)) {
+                listener(message);
+            }
+        });
+        this.socket.addEventListener('close', () => {
+            for (const listener of Array.from(this.closeListeners)) {
+                listener();
+            }
+        });
+    }
+
+    /**
+     * Open a connection
+     * @param url Relay address, e.g. ws://localhost:8787
+     */
+    static connect(url: string): Promise<WebSocketTransport> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url);
+            socket.addEventListener('open', () => resolve(new WebSocketTransport(socket)), { once: true });
+            socket.addEventListener('error', () => reject(new Error(`Could not connect to ${url}`)), { once: true });
+        });
+    }
+
+    send(message: ClientMessage): void {
+        if (this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+
+    onMessage(listener: (message: ServerMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * @returns Function that removes the listener
+     */
+    onClose(listener: () => void): () => void {
+        this.closeListeners.add(listener);
+        return () => this.closeListeners.delete(listener);
+    }
+
+    close(): void {
+        this.socket.close();
+    }
+}
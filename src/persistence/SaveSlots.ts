@@ -0,0 +1,68 @@
+import { WorldSnapshot, migrateSnapshot } from './WorldSnapshot';
+
+/**
+ * Summary of a stored save, shown in the load menu
+ */
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: string;
+  tick: number;
+}
+
+/**
+ * SaveSlots
+ * Stores world snapshots in localStorage under named slots
+ */
+export class SaveSlots {
+  private storage: Storage;
+  private prefix: string;
+
+  constructor(storage: Storage = window.localStorage, prefix: string = 'threejs-rts:save:') {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Write a snapshot to a slot, replacing any previous save
+   */
+  save(slot: string, snapshot: WorldSnapshot): void {
+    this.storage.setItem(this.prefix + slot, JSON.stringify(snapshot));
+  }
+
+  /**
+   * Read a slot, migrating older snapshots to the current version
+   * @returns The snapshot, or null if the slot is empty
+   */
+  load(slot: string): WorldSnapshot | null {
+    const raw = this.storage.getItem(this.prefix + slot);
+    return raw === null ? null : migrateSnapshot(JSON.parse(raw));
+  }
+
+  /**
+   * Delete a slot
+   */
+  delete(slot: string): void {
+    this.storage.removeItem(this.prefix + slot);
+  }
+
+  /**
+   * List all occupied slots
+   */
+  list(): SaveSlotInfo[] {
+    const slots: SaveSlotInfo[] = [];
+
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key || !key.startsWith(this.prefix)) continue;
+
+      try {
+        const snapshot = JSON.parse(this.storage.getItem(key)!) as WorldSnapshot;
+        slots.push({ slot: key.slice(this.prefix.length), savedAt: snapshot.savedAt, tick: snapshot.tick });
+      } catch {
+        // Ignore corrupt entries; they can still be overwritten
+      }
+    }
+
+    return slots.sort((a, b) => a.slot.localeCompare(b.slot));
+  }
+}
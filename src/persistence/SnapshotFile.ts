@@ -0,0 +1,24 @@
+import { WorldSnapshot, migrateSnapshot } from './WorldSnapshot';
+
+/**
+ * Offer a snapshot to the user as a downloadable JSON file
+ */
+export function exportSnapshotFile(snapshot: WorldSnapshot, fileName: string = 'rts-save.json'): void {
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a snapshot from a user-selected file
+ */
+export async function importSnapshotFile(file: File): Promise<WorldSnapshot> {
+  const text = await file.text();
+  return migrateSnapshot(JSON.parse(text));
+}
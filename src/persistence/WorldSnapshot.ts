@@ -0,0 +1,557 @@
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+import { isSerializable, SnapshotContext, Vector3Data } from '../ecs/Serialization';
+import { PrefabComponent, PrefabData } from '../ecs/components/PrefabComponent';
+import { TransformComponent, TransformData } from '../ecs/components/TransformComponent';
+import { BUILDING_TYPES, BuildingComponent, BuildingData } from '../ecs/components/BuildingComponent';
+import { DropOffComponent, DropOffData } from '../ecs/components/DropOffComponent';
+import { GatheringComponent, GatheringData, WorkerState } from '../ecs/components/GatheringComponent';
+import { MovementComponent, MovementData } from '../ecs/components/MovementComponent';
+import { OwnerComponent, OwnerData } from '../ecs/components/OwnerComponent';
+import { ProductionQueueComponent, ProductionQueueData } from '../ecs/components/ProductionQueueComponent';
+import { ResourceComponent, ResourceData } from '../ecs/components/ResourceComponent';
+import { SelectableComponent, SelectableData } from '../ecs/components/SelectableComponent';
+import { SupplyComponent, SupplyData } from '../ecs/components/SupplyComponent';
+import { GameSimulation } from '../simulation/GameSimulation';
+import { Player, PLAYER_COLORS } from '../simulation/Players';
+import { LedgerEntry, LedgerState } from '../simulation/ResourceLedger';
+import { RandomState } from '../core/Random';
+import { ResourceAmounts } from '../ecs/GameEvents';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 5;
+
+/**
+ * Versioned, JSON-compatible snapshot of a whole game
+ */
+export interface WorldSnapshot {
+  version: number;
+  savedAt: string;
+  tick: number;
+  simulationTime: number;
+  /** Players with their resources, in ascending id order */
+  players: Player[];
+  /** Resource reservations and income/expense history */
+  ledger: LedgerState;
+  /** Seed and stream positions of the World's random service */
+  random: RandomState;
+  entities: EntitySnapshot[];
+}
+
+export interface EntitySnapshot {
+  id: EntityId;
+  enabled: boolean;
+  /** Serialized component data keyed by component registry key */
+  components: Record<string, unknown>;
+}
+
+/**
+ * A parsed snapshot of any version, before it is checked
+ */
+export type SnapshotRecord = Record<string, unknown>;
+
+/**
+ * Upgrades a snapshot from one version to the next
+ */
+export type SnapshotMigration = (snapshot: SnapshotRecord) => SnapshotRecord;
+
+/**
+ * Error thrown when a snapshot cannot be read
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const LEDGER_ENTRY_KINDS: readonly LedgerEntry['kind'][] = ['income', 'expense', 'refund'];
+
+const WORKER_STATES: readonly WorkerState[] = Object.values(WorkerState);
+
+const migrations: Map<number, SnapshotMigration> = new Map();
+
+/**
+ * Register the migration that upgrades snapshots of `fromVersion` to `fromVersion + 1`
+ */
+export function registerSnapshotMigration(fromVersion: number, migration: SnapshotMigration): void {
+  if (migrations.has(fromVersion)) {
+    throw new SnapshotError(`A migration from snapshot version ${fromVersion} is already registered`);
+  }
+  migrations.set(fromVersion, migration);
+}
+
+/**
+ * Bring a parsed snapshot up to the current version
+ * @throws SnapshotError for unknown, newer or unmigratable versions, or
+ * snapshots with missing or malformed fields
+ */
+export function migrateSnapshot(data: unknown): WorldSnapshot {
+  if (!isRecord(data) || typeof data.version !== 'number') {
+    throw new SnapshotError('Not a world snapshot');
+  }
+  if (data.version > SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Snapshot version ${data.version} is newer than supported version ${SNAPSHOT_VERSION}`);
+  }
+
+  let snapshot: SnapshotRecord = data;
+  let version = data.version;
+  while (version < SNAPSHOT_VERSION) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new SnapshotError(`No migration from snapshot version ${version}`);
+    }
+    version++;
+    snapshot = { ...migration(snapshot), version };
+  }
+
+  return parseSnapshot(snapshot);
+}
+
+/**
+ * Capture the full state of a simulation
+ */
+export function createSnapshot(simulation: GameSimulation): WorldSnapshot {
+  const world = simulation.world;
+  const entities: EntitySnapshot[] = [];
+
+  for (const entity of world.getAllEntities()) {
+    const components: Record<string, unknown> = {};
+    for (const component of entity.getAllComponents()) {
+      if (isSerializable(component)) {
+        components[component.componentType] = component.serialize();
+      }
+    }
+    entities.push({ id: entity.id, enabled: entity.enabled, components });
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    tick: world.getTick(),
+    simulationTime: world.getSimulationTime(),
+    players: simulation.players.getAll().map(player => ({ ...player, resources: { ...player.resources } })),
+    random: world.random.getState(),
+    ledger: simulation.ledger.getState(),
+    entities,
+  };
+}
+
+/**
+ * Replace a simulation's state with a snapshot.
+ * Entities are respawned from their prefabs so they get their meshes
+ * back, then every serialized component is restored on top.
+ * The snapshot is fully checked first, so a bad one leaves the
+ * simulation untouched.
+ * @throws SnapshotError if the snapshot is malformed or names unknown prefabs
+ */
+export function restoreSnapshot(simulation: GameSimulation, data: unknown): void {
+  const snapshot = migrateSnapshot(data);
+  const world = simulation.world;
+
+  for (const entityData of snapshot.entities) {
+    const prefab = entityData.components[PrefabComponent.TYPE] as PrefabData | undefined;
+    if (prefab && !simulation.prefabs.has(prefab.prefabId)) {
+      throw new SnapshotError(`Unknown prefab '${prefab.prefabId}' in snapshot`);
+    }
+  }
+
+  world.reset();
+  // Pending orders refer to entity ids from before the load
+  simulation.commands.clear();
+  world.restoreClock(snapshot.tick, snapshot.simulationTime);
+  world.random.restore(snapshot.random);
+  simulation.players.clear();
+  for (const player of snapshot.players) {
+    simulation.players.add({ ...player, resources: { ...player.resources } });
+  }
+  simulation.ledger.restore(snapshot.ledger);
+
+  // First pass: recreate entities so cross-references can be remapped
+  const restored: { entity: Entity; data: EntitySnapshot }[] = [];
+  const idMap = new Map<EntityId, EntityId>();
+  for (const entityData of snapshot.entities) {
+    const entity = spawnEntity(simulation, entityData);
+    idMap.set(entityData.id, entity.id);
+    restored.push({ entity, data: entityData });
+  }
+
+  const context: SnapshotContext = {
+    resolveEntity: (id) => (id === null ? null : idMap.get(id) ?? null),
+  };
+
+  // Second pass: restore component state
+  for (const { entity, data: entityData } of restored) {
+    for (const [key, componentData] of Object.entries(entityData.components)) {
+      // parseSnapshot only lets registered, serializable components through
+      const componentClass = ComponentRegistry.get(key)!;
+
+      let component = entity.getComponent(componentClass);
+      if (!component) {
+        component = new componentClass();
+        entity.addComponent(component);
+      }
+      if (isSerializable(component)) {
+        component.restore(componentData, context);
+      }
+    }
+
+    if (!entityData.enabled) {
+      entity.disable();
+    }
+  }
+
+  world.events.emit('simulationLoaded', { tick: snapshot.tick });
+}
+
+/**
+ * Create the entity for a snapshot from its prefab, so it gets its visuals back
+ */
+function spawnEntity(simulation: GameSimulation, data: EntitySnapshot): Entity {
+  const prefab = data.components[PrefabComponent.TYPE] as PrefabData | undefined;
+  if (!prefab) {
+    return simulation.world.createEntity();
+  }
+
+  const transform = data.components[TransformComponent.TYPE] as TransformData | undefined;
+  const [x, , z] = transform?.position ?? [0, 0, 0];
+  return simulation.prefabs.spawn(prefab.prefabId, { x, z });
+}
+
+// Version 1 snapshots predate prefabs: infer each entity's prefab from its components
+registerSnapshotMigration(1, (snapshot) => ({
+  ...snapshot,
+  entities: entityRecords(snapshot).map((entity, index) => {
+    const components = componentRecords(entity, index);
+    const building = optionalRecord(components.building, 'building component');
+    const resource = optionalRecord(components.resource, 'resource component');
+    let prefabId: unknown = null;
+
+    if (building) {
+      prefabId = building.buildingType;
+    } else if (resource) {
+      prefabId = resource.type === 'gold' ? 'gold_mine' : 'tree';
+    } else if (components.movement) {
+      prefabId = 'worker';
+    }
+
+    return prefabId
+      ? { ...entity, components: { ...components, prefab: { prefabId } } }
+      : entity;
+  }),
+}));
+
+// Version 2 snapshots predate the random service
+registerSnapshotMigration(2, (snapshot) => ({
+  ...snapshot,
+  random: { seed: 0, streams: {} },
+}));
+
+// Version 3 snapshots had one shared stockpile: it becomes player 0, who
+// also owns every unit and building that had no owner
+registerSnapshotMigration(3, ({ playerResources, ...snapshot }) => ({
+  ...snapshot,
+  players: [{ id: 0, name: 'Player 1', team: 0, color: PLAYER_COLORS[0], resources: playerResources }],
+  entities: entityRecords(snapshot).map((entity, index) => {
+    const components = componentRecords(entity, index);
+    const ownable = components.building || components.movement;
+    return ownable && !components.owner
+      ? { ...entity, components: { ...components, owner: { playerId: 0 } } }
+      : entity;
+  }),
+}));
+
+// Version 4 snapshots predate the resource ledger; units queued back then
+// hold no reservation and are refunded from their recorded cost
+registerSnapshotMigration(4, (snapshot) => ({
+  ...snapshot,
+  ledger: { nextReservationId: 1, reservations: [], history: [], totals: [] },
+}));
+
+// ----------------------------------------------------------------
+// Checking parsed snapshots
+// ----------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireRecord(value: unknown, what: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new SnapshotError(`Snapshot ${what} must be an object`);
+  }
+  return value;
+}
+
+function optionalRecord(value: unknown, what: string): Record<string, unknown> | null {
+  return value === undefined || value === null ? null : requireRecord(value, what);
+}
+
+function requireArray(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SnapshotError(`Snapshot ${what} must be a list`);
+  }
+  return value;
+}
+
+function requireNumber(value: unknown, what: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SnapshotError(`Snapshot ${what} must be a number`);
+  }
+  return value;
+}
+
+function requireString(value: unknown, what: string): string {
+  if (typeof value !== 'string') {
+    throw new SnapshotError(`Snapshot ${what} must be a string`);
+  }
+  return value;
+}
+
+function optionalNumber(value: unknown, what: string): number | null {
+  return value === null ? null : requireNumber(value, what);
+}
+
+function requireBoolean(value: unknown, what: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new SnapshotError(`Snapshot ${what} must be true or false`);
+  }
+  return value;
+}
+
+/**
+ * Parse a field that older snapshots may lack
+ */
+function optional<T>(value: unknown, parse: (value: unknown) => T): T | undefined {
+  return value === undefined ? undefined : parse(value);
+}
+
+function requireVector(value: unknown, what: string): Vector3Data {
+  const vector = requireArray(value, what);
+  if (vector.length !== 3) {
+    throw new SnapshotError(`Snapshot ${what} must have three coordinates`);
+  }
+  return [requireNumber(vector[0], what), requireNumber(vector[1], what), requireNumber(vector[2], what)];
+}
+
+function requireIds(value: unknown, what: string): EntityId[] {
+  return requireArray(value, what).map((id) => requireNumber(id, what));
+}
+
+function requireAmounts(value: unknown, what: string): ResourceAmounts {
+  const amounts: ResourceAmounts = {};
+  for (const [type, amount] of Object.entries(requireRecord(value, what))) {
+    amounts[type] = requireNumber(amount, `${what} '${type}'`);
+  }
+  return amounts;
+}
+
+function entityRecords(snapshot: SnapshotRecord): Record<string, unknown>[] {
+  return requireArray(snapshot.entities, 'entities').map((entity, index) => requireRecord(entity, `entity ${index}`));
+}
+
+function componentRecords(entity: Record<string, unknown>, index: number): Record<string, unknown> {
+  return requireRecord(entity.components, `components of entity ${index}`);
+}
+
+/**
+ * Check every field of a current-version snapshot
+ */
+function parseSnapshot(snapshot: SnapshotRecord): WorldSnapshot {
+  const players = requireArray(snapshot.players, 'players').map(parsePlayer);
+  const playerIds = new Set(players.map((player) => player.id));
+  if (playerIds.size !== players.length) {
+    throw new SnapshotError('Snapshot players must have distinct ids');
+  }
+
+  return {
+    version: requireNumber(snapshot.version, 'version'),
+    savedAt: requireString(snapshot.savedAt, 'savedAt'),
+    tick: requireNumber(snapshot.tick, 'tick'),
+    simulationTime: requireNumber(snapshot.simulationTime, 'simulationTime'),
+    players,
+    ledger: parseLedger(requireRecord(snapshot.ledger, 'ledger')),
+    random: parseRandom(requireRecord(snapshot.random, 'random')),
+    entities: entityRecords(snapshot).map((entity, index) => ({
+      id: requireNumber(entity.id, `entity ${index} id`),
+      enabled: entity.enabled !== false,
+      components: parseComponents(componentRecords(entity, index), index),
+    })),
+  };
+}
+
+/**
+ * Checks the serialized data of one component kind
+ * @param what Describes the component in error messages
+ */
+type ComponentParser = (data: Record<string, unknown>, what: string) => unknown;
+
+/**
+ * Parsers for every serializable component, keyed by component key.
+ * Optional fields stay undefined so restore() can fill in defaults for
+ * older saves.
+ */
+const componentParsers: Record<string, ComponentParser> = {
+  [TransformComponent.TYPE]: (data, what): TransformData => ({
+    position: requireVector(data.position, `${what} position`),
+    rotation: requireVector(data.rotation, `${what} rotation`),
+    scale: requireVector(data.scale, `${what} scale`),
+  }),
+  [MovementComponent.TYPE]: (data, what): MovementData => ({
+    speed: requireNumber(data.speed, `${what} speed`),
+    rotationSpeed: requireNumber(data.rotationSpeed, `${what} rotationSpeed`),
+    arrivalThreshold: requireNumber(data.arrivalThreshold, `${what} arrivalThreshold`),
+    targetPosition: data.targetPosition === null ? null : requireVector(data.targetPosition, `${what} targetPosition`),
+  }),
+  [SelectableComponent.TYPE]: (data, what): SelectableData => ({
+    isSelected: requireBoolean(data.isSelected, `${what} isSelected`),
+    selectionColor: requireNumber(data.selectionColor, `${what} selectionColor`),
+  }),
+  [OwnerComponent.TYPE]: (data, what): OwnerData => ({
+    playerId: requireNumber(data.playerId, `${what} playerId`),
+  }),
+  [PrefabComponent.TYPE]: (data, what): PrefabData => ({
+    prefabId: requireString(data.prefabId, `${what} prefabId`),
+  }),
+  [SupplyComponent.TYPE]: (data, what): SupplyData => ({
+    cost: requireNumber(data.cost, `${what} cost`),
+    provided: requireNumber(data.provided, `${what} provided`),
+  }),
+  [DropOffComponent.TYPE]: (data, what): DropOffData => ({
+    accepts: data.accepts === null
+      ? null
+      : requireArray(data.accepts, `${what} accepts`).map((type) => requireString(type, `${what} accepted type`)),
+  }),
+  [BuildingComponent.TYPE]: (data, what): BuildingData => {
+    const buildingType = BUILDING_TYPES.find((type) => type === data.buildingType);
+    if (!buildingType) {
+      throw new SnapshotError(`Snapshot ${what} has unknown building type ${JSON.stringify(data.buildingType)}`);
+    }
+    return {
+      buildingType,
+      constructionProgress: requireNumber(data.constructionProgress, `${what} constructionProgress`),
+      isConstructed: requireBoolean(data.isConstructed, `${what} isConstructed`),
+      buildTime: optional(data.buildTime, (value) => requireNumber(value, `${what} buildTime`)),
+      reservationId: optional(data.reservationId, (value) => optionalNumber(value, `${what} reservationId`)),
+    };
+  },
+  [ResourceComponent.TYPE]: (data, what): ResourceData => ({
+    type: requireString(data.type, `${what} type`),
+    amount: requireNumber(data.amount, `${what} amount`),
+    maxAmount: requireNumber(data.maxAmount, `${what} maxAmount`),
+    depleted: requireBoolean(data.depleted, `${what} depleted`),
+    depletedTime: optional(data.depletedTime, (value) => requireNumber(value, `${what} depletedTime`)),
+    maxGatherers: optional(data.maxGatherers, (value) => requireNumber(value, `${what} maxGatherers`)),
+    gatherers: optional(data.gatherers, (value) => requireIds(value, `${what} gatherers`)),
+    queue: optional(data.queue, (value) => requireIds(value, `${what} queue`)),
+  }),
+  [GatheringComponent.TYPE]: (data, what): GatheringData => ({
+    gatherRate: requireNumber(data.gatherRate, `${what} gatherRate`),
+    carryCapacity: requireNumber(data.carryCapacity, `${what} carryCapacity`),
+    currentCarry: requireNumber(data.currentCarry, `${what} currentCarry`),
+    resourceType: data.resourceType === null ? null : requireString(data.resourceType, `${what} resourceType`),
+    targetResourceId: optionalNumber(data.targetResourceId, `${what} targetResourceId`),
+    dropOffId: optional(data.dropOffId, (value) => optionalNumber(value, `${what} dropOffId`)),
+    constructionSiteId: optional(data.constructionSiteId, (value) => optionalNumber(value, `${what} constructionSiteId`)),
+    state: optional(data.state, (value) => {
+      const state = WORKER_STATES.find((candidate) => candidate === value);
+      if (!state) {
+        throw new SnapshotError(`Snapshot ${what} has unknown state ${JSON.stringify(value)}`);
+      }
+      return state;
+    }),
+    autoGather: optional(data.autoGather, (value) => requireBoolean(value, `${what} autoGather`)),
+    isGathering: optional(data.isGathering, (value) => requireBoolean(value, `${what} isGathering`)),
+    gatherTimer: requireNumber(data.gatherTimer, `${what} gatherTimer`),
+  }),
+  [ProductionQueueComponent.TYPE]: (data, what): ProductionQueueData => ({
+    queue: requireArray(data.queue, `${what} queue`).map((value, index) => {
+      const item = requireRecord(value, `${what} queue item ${index}`);
+      return {
+        unitType: requireString(item.unitType, `${what} queued unitType`),
+        progress: requireNumber(item.progress, `${what} queued progress`),
+        cost: requireAmounts(item.cost, `${what} queued cost`),
+        reservationId: optionalNumber(item.reservationId ?? null, `${what} queued reservationId`),
+      };
+    }),
+    productionRate: requireNumber(data.productionRate, `${what} productionRate`),
+    maxQueueSize: requireNumber(data.maxQueueSize, `${what} maxQueueSize`),
+    supplyBlocked: optional(data.supplyBlocked, (value) => requireBoolean(value, `${what} supplyBlocked`)),
+  }),
+};
+
+function parseComponents(components: Record<string, unknown>, index: number): Record<string, unknown> {
+  const parsed: Record<string, unknown> = {};
+  for (const [key, data] of Object.entries(components)) {
+    if (!ComponentRegistry.get(key)) {
+      throw new SnapshotError(`Unknown component '${key}' in snapshot`);
+    }
+    const parser = componentParsers[key];
+    if (!parser) {
+      throw new SnapshotError(`Component '${key}' cannot be restored`);
+    }
+    const what = `${key} component of entity ${index}`;
+    parsed[key] = parser(requireRecord(data, what), what);
+  }
+  return parsed;
+}
+
+function parsePlayer(value: unknown, index: number): Player {
+  const player = requireRecord(value, `player ${index}`);
+  return {
+    id: requireNumber(player.id, `player ${index} id`),
+    name: requireString(player.name, `player ${index} name`),
+    team: requireNumber(player.team, `player ${index} team`),
+    color: requireNumber(player.color, `player ${index} color`),
+    resources: requireAmounts(player.resources, `player ${index} resources`),
+  };
+}
+
+function parseLedger(ledger: Record<string, unknown>): LedgerState {
+  return {
+    nextReservationId: requireNumber(ledger.nextReservationId, 'ledger nextReservationId'),
+    reservations: requireArray(ledger.reservations, 'ledger reservations').map((value) => {
+      const reservation = requireRecord(value, 'ledger reservation');
+      return {
+        id: requireNumber(reservation.id, 'reservation id'),
+        playerId: requireNumber(reservation.playerId, 'reservation playerId'),
+        amounts: requireAmounts(reservation.amounts, 'reservation amounts'),
+        reason: requireString(reservation.reason, 'reservation reason'),
+      };
+    }),
+    history: requireArray(ledger.history, 'ledger history').map((value) => {
+      const entry = requireRecord(value, 'ledger entry');
+      const kind = LEDGER_ENTRY_KINDS.find((candidate) => candidate === entry.kind);
+      if (!kind) {
+        throw new SnapshotError(`Snapshot ledger entry has unknown kind ${JSON.stringify(entry.kind)}`);
+      }
+      return {
+        tick: requireNumber(entry.tick, 'ledger entry tick'),
+        playerId: requireNumber(entry.playerId, 'ledger entry playerId'),
+        kind,
+        amounts: requireAmounts(entry.amounts, 'ledger entry amounts'),
+        reason: requireString(entry.reason, 'ledger entry reason'),
+      };
+    }),
+    totals: requireArray(ledger.totals, 'ledger totals').map((value) => {
+      const totals = requireRecord(value, 'ledger totals');
+      return {
+        playerId: requireNumber(totals.playerId, 'ledger totals playerId'),
+        income: requireAmounts(totals.income, 'ledger income'),
+        expense: requireAmounts(totals.expense, 'ledger expense'),
+        refund: requireAmounts(totals.refund, 'ledger refund'),
+      };
+    }),
+  };
+}
+
+function parseRandom(random: Record<string, unknown>): RandomState {
+  const streams: Record<string, number> = {};
+  for (const [name, state] of Object.entries(requireRecord(random.streams, 'random streams'))) {
+    streams[name] = requireNumber(state, `random stream '${name}'`);
+  }
+  return { seed: requireNumber(random.seed, 'random seed'), streams };
+}
@@ -0,0 +1,20 @@
+import { RelayServer } from './server/RelayServer';
+
+// ================================================================
+// Lockstep relay server
+// Usage: npm run relay -- [port]
+// ================================================================
+
+const port = Number(process.argv[2] ?? 8787);
+
+if (!Number.isInteger(port) || port <= 0) {
+    console.error(`Invalid port: ${process.argv[2]}`);
+    process.exit(1);
+}
+
+const relay = new RelayServer({ port });
+console.log(`Relay listening on ws://localhost:${relay.port}`);
+
+process.on('SIGINT', () => {
+    relay.close().then(() => process.exit(0));
+});
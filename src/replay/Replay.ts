@@ -0,0 +1,65 @@
+import { WorldSnapshot, migrateSnapshot } from '../persistence/WorldSnapshot';
+import { Command } from '../simulation/Commands';
+
+/**
+ * Current replay format version
+ */
+export const REPLAY_VERSION = 2;
+
+/**
+ * A command together with the tick it was applied on
+ */
+export interface RecordedCommand {
+    tick: number;
+    command: Command;
+}
+
+/**
+ * Versioned, JSON-compatible recording of a match: the state it started
+ * from plus every command applied afterwards
+ */
+export interface Replay {
+    version: number;
+    recordedAt: string;
+    tickRate: number;
+    /** Seed of the recorded game's random streams */
+    seed: number;
+    /** World state right after the scenario or save was loaded */
+    start: WorldSnapshot;
+    /** Commands in the order they were applied */
+    commands: RecordedCommand[];
+    /** Tick at which the recording stopped */
+    endTick: number;
+}
+
+/**
+ * Error thrown when a replay cannot be read or played
+ */
+export class ReplayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayError';
+    }
+}
+
+/**
+ * Validate raw replay data (e.g. parsed from a file)
+ * @throws ReplayError if the data is not a playable replay
+ */
+export function parseReplay(data: unknown): Replay {
+    if (!data || typeof data !== 'object') {
+        throw new ReplayError('Replay is not an object');
+    }
+
+    const replay = data as Replay;
+    // Version 1 only differs by the missing seed, which the start state holds
+    if (replay.version !== REPLAY_VERSION && replay.version !== 1) {
+        throw new ReplayError(`Unsupported replay version ${replay.version}`);
+    }
+    if (!Array.isArray(replay.commands) || typeof replay.endTick !== 'number' || !replay.start) {
+        throw new ReplayError('Replay is missing its start state or commands');
+    }
+
+    const start = migrateSnapshot(replay.start);
+    return { ...replay, version: REPLAY_VERSION, seed: start.random.seed, start };
+}
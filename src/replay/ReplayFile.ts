@@ -0,0 +1,24 @@
+import { Replay, parseReplay } from './Replay';
+
+/**
+ * Offer a replay to the user as a downloadable JSON file
+ */
+export function exportReplayFile(replay: Replay, fileName: string = 'rts-replay.json'): void {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a replay from a user-selected file
+ */
+export async function importReplayFile(file: File): Promise<Replay> {
+    const text = await file.text();
+    return parseReplay(JSON.parse(text));
+}
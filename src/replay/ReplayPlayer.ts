@@ -0,0 +1,110 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+import { FixedTimestep } from '../core/FixedTimestep';
+import { restoreSnapshot } from '../persistence/WorldSnapshot';
+import { Replay, ReplayError } from './Replay';
+
+/**
+ * ReplayPlayer
+ * Plays a replay back on a simulation by restoring its start state and
+ * feeding the recorded commands in on their original ticks. Commands
+ * issued by input while a replay plays are discarded.
+ */
+export class ReplayPlayer {
+    public readonly replay: Replay;
+    /** Playback speed multiplier */
+    public speed: number = 1;
+    public paused: boolean = false;
+
+    private simulation: GameSimulation;
+    private timestep: FixedTimestep;
+    private nextCommand: number = 0;
+
+    constructor(simulation: GameSimulation, replay: Replay, maxTicksPerFrame: number = 20) {
+        if (replay.tickRate !== simulation.tickRate) {
+            throw new ReplayError(
+                `Replay was recorded at ${replay.tickRate} ticks/s but the simulation runs at ${simulation.tickRate}`
+            );
+        }
+
+        this.simulation = simulation;
+        this.replay = replay;
+        this.timestep = new FixedTimestep({ tickRate: simulation.tickRate, maxTicksPerFrame });
+        this.restart();
+    }
+
+    get startTick(): number {
+        return this.replay.start.tick;
+    }
+
+    get endTick(): number {
+        return this.replay.endTick;
+    }
+
+    get currentTick(): number {
+        return this.simulation.getTick();
+    }
+
+    get finished(): boolean {
+        return this.currentTick >= this.endTick;
+    }
+
+    /**
+     * Interpolation factor for rendering between ticks
+     */
+    get alpha(): number {
+        return this.timestep.alpha;
+    }
+
+    /**
+     * Advance playback by a frame's real time, scaled by the speed
+     */
+    advance(frameSeconds: number): void {
+        if (this.paused || this.finished) return;
+        this.timestep.advance(frameSeconds * this.speed, () => this.stepTick());
+    }
+
+    /**
+     * Run exactly one recorded tick
+     * @returns false if the replay has already ended
+     */
+    stepTick(): boolean {
+        if (this.finished) return false;
+
+        const commands = this.replay.commands;
+        const tick = this.currentTick;
+
+        this.simulation.commands.clear();
+        while (this.nextCommand < commands.length && commands[this.nextCommand].tick <= tick) {
+            const entry = commands[this.nextCommand++];
+            if (entry.tick === tick) {
+                this.simulation.issue(entry.command);
+            }
+        }
+
+        this.simulation.tick();
+        return true;
+    }
+
+    /**
+     * Jump to a tick. Seeking backwards restores the start state and
+     * simulates forward again, since ticks cannot be undone.
+     */
+    seek(tick: number): void {
+        const target = Math.max(this.startTick, Math.min(this.endTick, Math.floor(tick)));
+        if (target < this.currentTick) {
+            this.restart();
+        }
+        while (this.currentTick < target) {
+            this.stepTick();
+        }
+    }
+
+    /**
+     * Go back to the start of the replay
+     */
+    restart(): void {
+        restoreSnapshot(this.simulation, this.replay.start);
+        this.nextCommand = 0;
+        this.timestep.reset();
+    }
+}
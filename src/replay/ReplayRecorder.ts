@@ -0,0 +1,83 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+import { Command } from '../simulation/Commands';
+import { createSnapshot } from '../persistence/WorldSnapshot';
+import { Replay, RecordedCommand, REPLAY_VERSION } from './Replay';
+
+/**
+ * ReplayRecorder
+ * Records the commands a simulation applies. Recording always starts from
+ * a freshly loaded state, so it restarts whenever a scenario or save is
+ * loaded while it is active.
+ */
+export class ReplayRecorder {
+    private simulation: GameSimulation;
+    private start: Replay['start'] | null = null;
+    private commands: RecordedCommand[] = [];
+    private unsubscribers: Array<() => void> = [];
+
+    constructor(simulation: GameSimulation) {
+        this.simulation = simulation;
+    }
+
+    /**
+     * Whether commands are currently being recorded
+     */
+    get recording(): boolean {
+        return this.unsubscribers.length > 0;
+    }
+
+    /**
+     * Start recording from the simulation's current state.
+     * Call right after loading a scenario or save.
+     */
+    startRecording(): void {
+        this.stopRecording();
+        this.begin();
+
+        this.unsubscribers.push(
+            this.simulation.commands.onDrain(commands => this.record(commands)),
+            this.simulation.world.events.on('simulationLoaded', () => this.begin())
+        );
+    }
+
+    /**
+     * Stop recording; the recording so far stays available
+     */
+    stopRecording(): void {
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+    }
+
+    /**
+     * Build a replay of everything recorded so far
+     * @returns null if nothing was recorded yet
+     */
+    getReplay(): Replay | null {
+        if (!this.start) return null;
+
+        return {
+            version: REPLAY_VERSION,
+            recordedAt: new Date().toISOString(),
+            tickRate: this.simulation.tickRate,
+            seed: this.start.random.seed,
+            start: this.start,
+            commands: this.commands.map(entry => ({ ...entry })),
+            endTick: this.simulation.getTick()
+        };
+    }
+
+    private begin(): void {
+        this.start = createSnapshot(this.simulation);
+        this.commands = [];
+    }
+
+    private record(commands: readonly Command[]): void {
+        // Commands are drained during the tick they are applied in
+        const tick = this.simulation.getTick();
+        for (const command of commands) {
+            this.commands.push({ tick, command: JSON.parse(JSON.stringify(command)) });
+        }
+    }
+}
@@ -0,0 +1,318 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Command } from '../simulation/Commands';
+import { MAPS, getMap } from '../simulation/Maps';
+import {
+    ClientMessage,
+    LobbyPlayer,
+    MatchSettings,
+    MAX_PLAYERS,
+    MIN_PLAYERS,
+    ProtocolError,
+    ServerMessage,
+    parseClientMessage,
+    TickHash
+} from '../multiplayer/Protocol';
+
+export interface RelayServerOptions {
+    port?: number;
+    /** Simulation ticks per lockstep turn */
+    turnTicks?: number;
+    /** Turns between issuing a command and executing it */
+    inputDelay?: number;
+}
+
+/**
+ * RelayServer
+ * Lobby and command relay for lockstep matches. It never simulates the
+ * game: it collects each player's commands per turn, broadcasts a turn
+ * once every connected player has sent theirs, and compares the state
+ * hashes players report for every tick. A match ends when fewer than
+ * MIN_PLAYERS are left; the rest go back to the lobby.
+ */
+export class RelayServer {
+    public readonly port: number;
+
+    private server: WebSocketServer;
+    private settings: Omit<MatchSettings, 'mapId' | 'seed'>;
+    private players: Map<WebSocket, LobbyPlayer> = new Map();
+    private hostId: number | null = null;
+    private mapId: string = MAPS[0].id;
+    private inMatch: boolean = false;
+    private turnBatches: Map<number, Map<number, Command[]>> = new Map();
+    private tickHashes: Map<number, Map<number, number>> = new Map();
+    /** Turns up to this one were broadcast; resent batches for them are ignored */
+    private lastRelayedTurn: number = -1;
+    /** Ticks up to this one had their hashes compared */
+    private lastComparedTick: number = -1;
+    private desyncReported: boolean = false;
+
+    constructor(options: RelayServerOptions = {}) {
+        this.port = options.port ?? 8787;
+        this.settings = {
+            turnTicks: options.turnTicks ?? 2,
+            inputDelay: options.inputDelay ?? 2
+        };
+        this.server = new WebSocketServer({ port: this.port });
+        this.server.on('connection', (socket) => this.handleConnection(socket));
+    }
+
+    /**
+     * Stop accepting connections and disconnect everyone
+     */
+    close(): Promise<void> {
+        for (const socket of this.players.keys()) {
+            socket.close();
+        }
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private handleConnection(socket: WebSocket): void {
+        socket.on('message', (data: RawData) => {
+            let message: ClientMessage;
+            try {
+                message = parseClientMessage(JSON.parse(data.toString()));
+            } catch (error) {
+                const reason = error instanceof ProtocolError ? error.message : 'not valid JSON';
+                this.send(socket, { type: 'error', message: `Malformed message: ${reason}` });
+                return;
+            }
+
+            // One bad message must not take the relay (and every match) down
+            try {
+                this.handleMessage(socket, message);
+            } catch (error) {
+                console.error('Failed to handle message', error);
+                this.send(socket, { type: 'error', message: `Message failed: ${(error as Error).message}` });
+            }
+        });
+        socket.on('close', () => this.handleLeave(socket));
+    }
+
+    private handleMessage(socket: WebSocket, message: ClientMessage): void {
+        if (message.type === 'join') {
+            this.handleJoin(socket, message.name);
+            return;
+        }
+
+        const player = this.players.get(socket);
+        if (!player) {
+            this.send(socket, { type: 'error', message: 'Join the lobby first' });
+            return;
+        }
+
+        switch (message.type) {
+            case 'ready':
+                player.ready = message.ready;
+                this.broadcastLobby();
+                break;
+
+            case 'selectMap':
+                if (player.playerId !== this.hostId || this.inMatch) return;
+                try {
+                    this.mapId = getMap(message.mapId).id;
+                } catch (error) {
+                    this.send(socket, { type: 'error', message: (error as Error).message });
+                    return;
+                }
+                this.broadcastLobby();
+                break;
+
+            case 'start':
+                if (player.playerId !== this.hostId) {
+                    this.send(socket, { type: 'error', message: 'Only the host can start the match' });
+                    return;
+                }
+                this.startMatch(socket);
+                break;
+
+            case 'turn':
+                if (!this.inMatch) return;
+                this.receiveTurn(player.playerId, message.turn, message.commands);
+                this.receiveHashes(player.playerId, message.hashes);
+                break;
+        }
+    }
+
+    private handleJoin(socket: WebSocket, name: string): void {
+        if (this.players.has(socket)) return;
+        if (this.inMatch) {
+            this.send(socket, { type: 'error', message: 'A match is already running' });
+            socket.close();
+            return;
+        }
+
+        const taken = new Set(Array.from(this.players.values()).map(player => player.playerId));
+        let playerId = 1;
+        while (taken.has(playerId)) playerId++;
+        if (playerId > MAX_PLAYERS) {
+            this.send(socket, { type: 'error', message: 'The lobby is full' });
+            socket.close();
+            return;
+        }
+
+        this.players.set(socket, { playerId, name: name.slice(0, 24) || `Player ${playerId}`, ready: false });
+        this.hostId ??= playerId;
+        this.send(socket, { type: 'welcome', playerId });
+        this.broadcastLobby();
+    }
+
+    private handleLeave(socket: WebSocket): void {
+        const player = this.players.get(socket);
+        if (!player) return;
+        this.players.delete(socket);
+
+        if (this.players.size === 0) {
+            this.resetLobby();
+            return;
+        }
+
+        if (this.inMatch) {
+            this.broadcast({ type: 'playerLeft', playerId: player.playerId });
+            if (this.players.size >= MIN_PLAYERS) {
+                // Turns that only waited for the departed player can go out now
+                for (const turn of Array.from(this.turnBatches.keys()).sort((a, b) => a - b)) {
+                    this.flushTurn(turn);
+                }
+                return;
+            }
+
+            this.resetMatch();
+            for (const other of this.players.values()) {
+                other.ready = false;
+            }
+            this.broadcast({ type: 'matchEnded' });
+        }
+
+        if (player.playerId === this.hostId) {
+            this.hostId = Math.min(...Array.from(this.players.values()).map(other => other.playerId));
+        }
+        this.broadcastLobby();
+    }
+
+    private startMatch(socket: WebSocket): void {
+        const players = this.lobbyPlayers();
+        const map = getMap(this.mapId);
+
+        if (this.inMatch) return;
+        if (players.length < MIN_PLAYERS || players.length > map.maxPlayers) {
+            this.send(socket, {
+                type: 'error',
+                message: `${map.name} needs ${MIN_PLAYERS}-${map.maxPlayers} players`
+            });
+            return;
+        }
+        if (players.some(player => !player.ready)) {
+            this.send(socket, { type: 'error', message: 'Not every player is ready' });
+            return;
+        }
+
+        this.inMatch = true;
+        // Drawn here so every peer seeds its simulation identically
+        const seed = Math.floor(Math.random() * 2 ** 32);
+        this.broadcast({ type: 'start', players, settings: { mapId: this.mapId, seed, ...this.settings } });
+    }
+
+    private receiveTurn(playerId: number, turn: number, commands: Command[]): void {
+        if (turn <= this.lastRelayedTurn) return;
+
+        let batches = this.turnBatches.get(turn);
+        if (!batches) {
+            batches = new Map();
+            this.turnBatches.set(turn, batches);
+        }
+        // The first batch a player sends for a turn is the one relayed
+        if (batches.has(playerId)) return;
+        batches.set(playerId, commands);
+        this.flushTurn(turn);
+    }
+
+    /**
+     * Broadcast a turn once every connected player has sent its commands
+     */
+    private flushTurn(turn: number): void {
+        const batches = this.turnBatches.get(turn);
+        if (!batches) return;
+
+        const connected = this.lobbyPlayers();
+        if (!connected.every(player => batches.has(player.playerId))) return;
+
+        this.turnBatches.delete(turn);
+        this.lastRelayedTurn = Math.max(this.lastRelayedTurn, turn);
+        this.broadcast({
+            type: 'turn',
+            turn,
+            batches: Array.from(batches, ([playerId, commands]) => ({ playerId, commands }))
+                .sort((a, b) => a.playerId - b.playerId)
+        });
+    }
+
+    private receiveHashes(playerId: number, hashes: TickHash[]): void {
+        const playerCount = this.players.size;
+
+        for (const { tick, hash } of hashes) {
+            if (tick <= this.lastComparedTick) continue;
+
+            let reported = this.tickHashes.get(tick);
+            if (!reported) {
+                reported = new Map();
+                this.tickHashes.set(tick, reported);
+            }
+            reported.set(playerId, hash);
+
+            if (reported.size < playerCount) continue;
+            this.tickHashes.delete(tick);
+            this.lastComparedTick = Math.max(this.lastComparedTick, tick);
+
+            const distinct = new Set(reported.values());
+            if (distinct.size > 1 && !this.desyncReported) {
+                this.desyncReported = true;
+                console.warn(`Desync detected at tick ${tick}`);
+                this.broadcast({
+                    type: 'desync',
+                    tick,
+                    hashes: Array.from(reported, ([id, value]) => ({ playerId: id, hash: value }))
+                });
+            }
+        }
+    }
+
+    private resetLobby(): void {
+        this.resetMatch();
+        this.hostId = null;
+    }
+
+    private resetMatch(): void {
+        this.inMatch = false;
+        this.turnBatches.clear();
+        this.tickHashes.clear();
+        this.lastRelayedTurn = -1;
+        this.lastComparedTick = -1;
+        this.desyncReported = false;
+    }
+
+    private lobbyPlayers(): LobbyPlayer[] {
+        return Array.from(this.players.values())
+            .map(player => ({ ...player }))
+            .sort((a, b) => a.playerId - b.playerId);
+    }
+
+    private broadcastLobby(): void {
+        if (this.hostId === null) return;
+        this.broadcast({ type: 'lobby', players: this.lobbyPlayers(), hostId: this.hostId, mapId: this.mapId });
+    }
+
+    private broadcast(message: ServerMessage): void {
+        const data = JSON.stringify(message);
+        for (const socket of this.players.keys()) {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(data);
+            }
+        }
+    }
+
+    private send(socket: WebSocket, message: ServerMessage): void {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+        }
+    }
+}
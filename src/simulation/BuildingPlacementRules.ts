@@ -0,0 +1,141 @@
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { BuildingComponent, BuildingType } from '../ecs/components/BuildingComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { ResourceAmounts } from '../ecs/GameEvents';
+import { PrefabRegistry } from '../factories/PrefabRegistry';
+import { PlayerRegistry } from './Players';
+import { ResourceLedger } from './ResourceLedger';
+import * as THREE from 'three';
+
+/**
+ * BuildingPlacementRules holds the gameplay side of construction:
+ * costs, placement validity and spawning the building.
+ * Input adapters (ghost preview, clicks) call into it.
+ */
+export class BuildingPlacementRules {
+    private world: World;
+    private players: PlayerRegistry;
+    private ledger: ResourceLedger;
+    private prefabs: PrefabRegistry;
+
+    constructor(world: World, players: PlayerRegistry, ledger: ResourceLedger, prefabs: PrefabRegistry) {
+        this.world = world;
+        this.players = players;
+        this.ledger = ledger;
+        this.prefabs = prefabs;
+    }
+
+    /**
+     * Whether a building type names a building prefab that can be placed
+     */
+    isBuildable(buildingType: string): buildingType is BuildingType {
+        return this.prefabs.isCategory(buildingType, 'building')
+            && this.prefabs.get(buildingType).components.building !== undefined;
+    }
+
+    getBuildingCost(buildingType: BuildingType): ResourceAmounts {
+        return this.prefabs.getCost(buildingType);
+    }
+
+    /**
+     * Whether a player has the resources for a building type
+     * @throws PlayerError if the player is unknown
+     */
+    canAfford(buildingType: BuildingType, playerId: number): boolean {
+        return this.ledger.canAfford(playerId, this.getBuildingCost(buildingType));
+    }
+
+    /**
+     * Publish an insufficientResources event for a building type
+     */
+    reportInsufficientResources(buildingType: BuildingType, playerId: number): void {
+        this.world.events.emit('insufficientResources', {
+            action: 'build',
+            itemType: buildingType,
+            playerId,
+            cost: this.getBuildingCost(buildingType),
+            available: { ...this.players.get(playerId).resources }
+        });
+    }
+
+    isValidPlacement(position: THREE.Vector3): boolean {
+        const minDistance = 5;
+
+        const nearby = this.world.spatial.queryRadius(
+            position.x,
+            position.z,
+            minDistance,
+            entity => entity.hasComponent(BuildingComponent)
+        );
+        return nearby.length === 0;
+    }
+
+    /**
+     * Reserve the cost of a building and spawn its construction site.
+     * The ConstructionSystem commits the cost once the site is finished.
+     * @param owner Player that pays for and will control the building
+     * @returns The new building, or null if not buildable, unaffordable or blocked
+     * @throws PlayerError if the owner is unknown
+     */
+    placeBuilding(buildingType: BuildingType, x: number, z: number, owner: number): Entity | null {
+        if (!this.isBuildable(buildingType)) {
+            return null;
+        }
+
+        if (!this.canAfford(buildingType, owner)) {
+            this.reportInsufficientResources(buildingType, owner);
+            return null;
+        }
+
+        if (!this.isValidPlacement(new THREE.Vector3(x, 0, z))) {
+            return null;
+        }
+
+        const reservationId = this.ledger.reserve(owner, this.getBuildingCost(buildingType), `build:${buildingType}`);
+
+        const building = this.prefabs.spawn(buildingType, { x, z }, owner);
+        building.requireComponent(BuildingComponent).startConstruction(reservationId);
+        this.world.events.emit('buildingPlaced', { entityId: building.id, buildingType, x, z, playerId: owner });
+        return building;
+    }
+
+    /**
+     * Find the most recently placed building that is still under construction
+     * @param playerId Only consider buildings this player owns
+     */
+    findConstructionSite(playerId?: number): EntityId | null {
+        const sites = this.world.queryEntities(BuildingComponent).filter(entity =>
+            !entity.requireComponent(BuildingComponent).isConstructed
+            && (playerId === undefined || entity.getComponent(OwnerComponent)?.playerId === playerId)
+        );
+        return sites.length > 0 ? Math.max(...sites.map(site => site.id)) : null;
+    }
+
+    /**
+     * Remove a building. A site still under construction gets its reserved
+     * cost back; finished buildings are not refunded.
+     * @returns false if the entity is not a building
+     */
+    demolishBuilding(buildingId: EntityId): boolean {
+        const entity = this.world.getEntity(buildingId);
+        const building = entity?.getComponent(BuildingComponent);
+        if (!entity || !building) return false;
+
+        const refunded = building.reservationId !== null;
+        if (building.reservationId !== null) {
+            this.ledger.release(building.reservationId);
+            building.reservationId = null;
+        }
+
+        this.world.destroyEntity(buildingId);
+        this.world.events.emit('buildingDemolished', {
+            entityId: buildingId,
+            buildingType: building.buildingType,
+            playerId: entity.getComponent(OwnerComponent)?.playerId ?? null,
+            refunded
+        });
+        return true;
+    }
+}
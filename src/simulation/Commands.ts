@@ -0,0 +1,267 @@
+import { EntityId } from '../ecs/EntityId';
+import { BUILDING_TYPES, BuildingType } from '../ecs/components/BuildingComponent';
+
+/**
+ * Fields shared by every command
+ */
+export interface CommandBase {
+    /** Issuing player; set by multiplayer sessions, absent in single player */
+    playerId?: number;
+}
+
+/**
+ * Move units to a ground position
+ */
+export interface MoveCommand extends CommandBase {
+    type: 'move';
+    entityIds: EntityId[];
+    x: number;
+    z: number;
+}
+
+/**
+ * Send workers to gather from a resource node
+ */
+export interface GatherCommand extends CommandBase {
+    type: 'gather';
+    entityIds: EntityId[];
+    resourceId: EntityId;
+}
+
+/**
+ * Place a construction site; its cost is reserved until it is finished.
+ * The given workers build it; without any, the owner's nearest worker
+ * that is not already building is sent.
+ */
+export interface BuildCommand extends CommandBase {
+    type: 'build';
+    buildingType: BuildingType;
+    x: number;
+    z: number;
+    entityIds?: EntityId[];
+}
+
+/**
+ * Send workers to build an existing construction site
+ */
+export interface ConstructCommand extends CommandBase {
+    type: 'construct';
+    entityIds: EntityId[];
+    buildingId: EntityId;
+}
+
+/**
+ * Queue a unit at a production building (null picks any barracks)
+ */
+export interface TrainCommand extends CommandBase {
+    type: 'train';
+    buildingId: EntityId | null;
+    unitType: string;
+}
+
+/**
+ * Remove a unit from a production queue and refund it.
+ * A null building picks any building with queued units; a missing index
+ * cancels the most recently queued unit.
+ */
+export interface CancelCommand extends CommandBase {
+    type: 'cancel';
+    buildingId: EntityId | null;
+    index?: number;
+}
+
+/**
+ * Tear down a building. Sites still under construction refund their cost;
+ * units queued in the building are cancelled and refunded. A null
+ * building picks the most recently placed construction site.
+ */
+export interface DemolishCommand extends CommandBase {
+    type: 'demolish';
+    buildingId: EntityId | null;
+}
+
+/**
+ * Stop units in place and drop their current orders
+ */
+export interface StopCommand extends CommandBase {
+    type: 'stop';
+    entityIds: EntityId[];
+}
+
+/**
+ * Turn auto-gather on or off for workers; idle workers with it on look for
+ * the nearest resource by themselves
+ */
+export interface AutoGatherCommand extends CommandBase {
+    type: 'autoGather';
+    entityIds: EntityId[];
+    enabled: boolean;
+}
+
+/**
+ * A player order. Commands are plain JSON data so they can be queued,
+ * recorded and sent over the network.
+ */
+export type Command =
+    | MoveCommand
+    | GatherCommand
+    | BuildCommand
+    | ConstructCommand
+    | TrainCommand
+    | CancelCommand
+    | DemolishCommand
+    | StopCommand
+    | AutoGatherCommand;
+
+export type CommandType = Command['type'];
+
+/**
+ * Error thrown for command data that does not have a command's shape
+ */
+export class CommandError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CommandError';
+    }
+}
+
+/**
+ * Check that data received from outside (network, replay files) is a
+ * well-formed command: known type, and every field of the right type
+ * @param unitTypes Unit prefab ids a train command may name; any string if omitted
+ * @throws CommandError describing the first problem found
+ */
+export function parseCommand(data: unknown, unitTypes?: ReadonlySet<string>): Command {
+    const command = requireObject(data);
+    const base: CommandBase = command.playerId === undefined
+        ? {}
+        : { playerId: requireInteger(command.playerId, 'playerId') };
+
+    switch (command.type) {
+        case 'move':
+            return { ...base, type: 'move', entityIds: requireIds(command.entityIds), x: requireFinite(command.x, 'x'), z: requireFinite(command.z, 'z') };
+        case 'gather':
+            return { ...base, type: 'gather', entityIds: requireIds(command.entityIds), resourceId: requireInteger(command.resourceId, 'resourceId') };
+        case 'build': {
+            const buildingType = BUILDING_TYPES.find(type => type === command.buildingType);
+            if (!buildingType) throw new CommandError(`Unknown building type ${JSON.stringify(command.buildingType)}`);
+            return {
+                ...base,
+                type: 'build',
+                buildingType,
+                x: requireFinite(command.x, 'x'),
+                z: requireFinite(command.z, 'z'),
+                ...(command.entityIds !== undefined && { entityIds: requireIds(command.entityIds) })
+            };
+        }
+        case 'construct':
+            return { ...base, type: 'construct', entityIds: requireIds(command.entityIds), buildingId: requireInteger(command.buildingId, 'buildingId') };
+        case 'train': {
+            const unitType = requireString(command.unitType, 'unitType');
+            if (unitTypes && !unitTypes.has(unitType)) throw new CommandError(`Unknown unit type '${unitType}'`);
+            return { ...base, type: 'train', buildingId: optionalId(command.buildingId, 'buildingId'), unitType };
+        }
+        case 'cancel':
+            return {
+                ...base,
+                type: 'cancel',
+                buildingId: optionalId(command.buildingId, 'buildingId'),
+                ...(command.index !== undefined && { index: requireInteger(command.index, 'index') })
+            };
+        case 'demolish':
+            return { ...base, type: 'demolish', buildingId: optionalId(command.buildingId, 'buildingId') };
+        case 'stop':
+            return { ...base, type: 'stop', entityIds: requireIds(command.entityIds) };
+        case 'autoGather':
+            if (typeof command.enabled !== 'boolean') throw new CommandError(`'enabled' must be a boolean`);
+            return { ...base, type: 'autoGather', entityIds: requireIds(command.entityIds), enabled: command.enabled };
+        default:
+            throw new CommandError(`Unknown command type ${JSON.stringify(command.type)}`);
+    }
+}
+
+function requireObject(value: unknown): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new CommandError('Command must be an object');
+    }
+    return { ...value };
+}
+
+function requireInteger(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value)) throw new CommandError(`'${field}' must be an integer`);
+    return value;
+}
+
+function requireFinite(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new CommandError(`'${field}' must be a finite number`);
+    return value;
+}
+
+function requireString(value: unknown, field: string): string {
+    if (typeof value !== 'string') throw new CommandError(`'${field}' must be a string`);
+    return value;
+}
+
+function requireIds(value: unknown): EntityId[] {
+    if (!Array.isArray(value)) throw new CommandError(`'entityIds' must be a list of entity ids`);
+    return value.map(id => requireInteger(id, 'entityIds'));
+}
+
+function optionalId(value: unknown, field: string): EntityId | null {
+    return value === null || value === undefined ? null : requireInteger(value, field);
+}
+
+/**
+ * Anything commands can be issued to
+ */
+export interface CommandSink {
+    enqueue(command: Command): void;
+}
+
+/**
+ * CommandQueue collects commands from input, AI or the network until the
+ * simulation applies them at the start of the next tick
+ */
+export class CommandQueue implements CommandSink {
+    private pending: Command[] = [];
+    private drainListeners: Set<(commands: readonly Command[]) => void> = new Set();
+
+    /**
+     * Add a command for the next tick
+     */
+    enqueue(command: Command): void {
+        this.pending.push(command);
+    }
+
+    /**
+     * Take every pending command, in the order they were issued
+     */
+    drain(): Command[] {
+        const commands = this.pending;
+        this.pending = [];
+        for (const listener of this.drainListeners) {
+            listener(commands);
+        }
+        return commands;
+    }
+
+    /**
+     * Observe every batch of commands taken for a tick (e.g. to record them)
+     * @returns Function that removes the listener
+     */
+    onDrain(listener: (commands: readonly Command[]) => void): () => void {
+        this.drainListeners.add(listener);
+        return () => this.drainListeners.delete(listener);
+    }
+
+    /**
+     * Drop pending commands without applying them
+     */
+    clear(): void {
+        this.pending = [];
+    }
+
+    get size(): number {
+        return this.pending.length;
+    }
+}
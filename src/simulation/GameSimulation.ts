@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { GatheringComponent } from '../ecs/components/GatheringComponent';
+import { RandomStreams } from '../core/Random';
+import { PrefabRegistry } from '../factories/PrefabRegistry';
+import { TransformHistorySystem } from '../systems/TransformHistorySystem';
+import { MovementSystem } from '../systems/MovementSystem';
+import { ResourceGatheringSystem } from '../systems/ResourceGatheringSystem';
+import { ResourceLifecycleSystem } from '../systems/ResourceLifecycleSystem';
+import { ProductionSystem } from '../systems/ProductionSystem';
+import { ConstructionSystem } from '../systems/ConstructionSystem';
+import { CommandProcessor } from '../systems/CommandProcessor';
+import { BuildingPlacementRules } from './BuildingPlacementRules';
+import { Scenario } from './Scenario';
+import { PLAYER_COLORS, PlayerRegistry } from './Players';
+import { ResourceTypeRegistry } from './ResourceTypes';
+import { ResourceLedger } from './ResourceLedger';
+import { SupplyTally, tallySupply } from './Supply';
+import { Command, CommandQueue } from './Commands';
+
+export interface GameSimulationOptions {
+    /** Simulation ticks per second */
+    tickRate?: number;
+    /** Scene to attach meshes to; omit for a headless simulation */
+    scene?: THREE.Object3D | null;
+}
+
+/**
+ * GameSimulation
+ * Owns the World and the gameplay systems, independent of DOM, input and
+ * rendering. The browser attaches its adapters to `world`; Node can drive
+ * it directly with `step`.
+ */
+export class GameSimulation {
+    public readonly world: World;
+    public readonly tickRate: number;
+    public readonly tickDuration: number;
+    /** Participants of the loaded game and their resources */
+    public readonly players: PlayerRegistry;
+    /** Resource types players collect and spend */
+    public readonly resourceTypes: ResourceTypeRegistry;
+    /** Every change to the players' resources goes through the ledger */
+    public readonly ledger: ResourceLedger;
+
+    public readonly prefabs: PrefabRegistry;
+    public readonly buildingRules: BuildingPlacementRules;
+    public readonly productionSystem: ProductionSystem;
+    /** Orders waiting to be applied at the start of the next tick */
+    public readonly commands: CommandQueue;
+
+    constructor(options: GameSimulationOptions = {}) {
+        const scene = options.scene ?? null;
+
+        this.world = new World();
+        this.tickRate = options.tickRate ?? 20;
+        this.tickDuration = 1 / this.tickRate;
+        this.players = new PlayerRegistry();
+        this.resourceTypes = ResourceTypeRegistry.withDefaults();
+        this.ledger = new ResourceLedger(this.world, this.players);
+
+        this.prefabs = PrefabRegistry.withDefaults(this.world, scene);
+        this.buildingRules = new BuildingPlacementRules(this.world, this.players, this.ledger, this.prefabs);
+        this.productionSystem = new ProductionSystem(this.world, this.players, this.ledger, this.prefabs);
+        this.commands = new CommandQueue();
+
+        const systemManager = this.world.getSystemManager();
+        systemManager.register(new TransformHistorySystem());
+        systemManager.register(new CommandProcessor(this.world, this.commands, this.players, this.buildingRules, this.productionSystem));
+        systemManager.register(new MovementSystem());
+        systemManager.register(new ResourceGatheringSystem(this.world, this.players, this.ledger));
+        systemManager.register(new ResourceLifecycleSystem(this.world, this.resourceTypes));
+        systemManager.register(new ConstructionSystem(this.world, this.ledger));
+        systemManager.register(this.productionSystem);
+    }
+
+    /**
+     * Replace the World's contents with a scenario's starting state
+     * @throws PlayerError if a unit or building names an unknown owner
+     * @throws ResourceTypeError if starting resources name an unknown type
+     */
+    loadScenario(scenario: Scenario): void {
+        this.world.reset();
+        this.world.random.reset(scenario.seed ?? 0);
+        this.commands.clear();
+
+        this.players.clear();
+        this.ledger.clear();
+        (scenario.players ?? [{ id: 0 }]).forEach((player, slot) => {
+            this.players.add({
+                id: player.id,
+                name: player.name ?? `Player ${slot + 1}`,
+                team: player.team ?? player.id,
+                color: player.color ?? PLAYER_COLORS[slot % PLAYER_COLORS.length],
+                resources: this.resourceTypes.startingAmounts(player.resources ?? scenario.resources)
+            });
+        });
+        const defaultOwner = this.players.getFirst().id;
+
+        for (const building of scenario.buildings) {
+            const owner = this.players.get(building.owner ?? defaultOwner);
+            this.prefabs.spawn(building.prefab, building, owner.id);
+        }
+
+        for (const node of scenario.resourceNodes) {
+            const entity = this.prefabs.spawn(node.prefab, node);
+            const resource = entity.getComponent(ResourceComponent);
+            if (resource && node.amount !== undefined) {
+                resource.amount = node.amount;
+                resource.maxAmount = node.amount;
+            }
+        }
+
+        const mapRandom = this.world.random.stream(RandomStreams.MAP);
+        for (const scatter of scenario.scatteredResources ?? []) {
+            for (let i = 0; i < scatter.count; i++) {
+                const prefab = mapRandom.pick(scatter.prefabs);
+                const x = mapRandom.range(-scatter.extent, scatter.extent);
+                const z = mapRandom.range(-scatter.extent, scatter.extent);
+                this.prefabs.spawn(prefab, { x, z });
+            }
+        }
+
+        for (const unit of scenario.units) {
+            const owner = this.players.get(unit.owner ?? defaultOwner);
+            const entity = this.prefabs.spawn(unit.prefab ?? 'worker', unit, owner.id);
+            const gathering = entity.getComponent(GatheringComponent);
+            if (gathering && unit.autoGather !== undefined) {
+                gathering.autoGather = unit.autoGather;
+            }
+        }
+
+        this.world.events.emit('simulationLoaded', { tick: this.world.getTick() });
+    }
+
+    /**
+     * A player's current supply use and cap
+     */
+    getSupply(playerId: number): SupplyTally {
+        return tallySupply(this.world, this.prefabs).get(playerId) ?? { used: 0, max: 0 };
+    }
+
+    /**
+     * Queue a command for the next tick
+     */
+    issue(command: Command): void {
+        this.commands.enqueue(command);
+    }
+
+    /**
+     * Run a single simulation tick
+     */
+    tick(): void {
+        this.world.update(this.tickDuration);
+    }
+
+    /**
+     * Run several simulation ticks back to back
+     */
+    step(ticks: number): void {
+        for (let i = 0; i < ticks; i++) {
+            this.tick();
+        }
+    }
+
+    /**
+     * Number of ticks simulated since the scenario was loaded
+     */
+    getTick(): number {
+        return this.world.getTick();
+    }
+}
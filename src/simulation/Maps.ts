@@ -0,0 +1,78 @@
+import { Scenario, ScenarioResourceNode } from './Scenario';
+import { ResourceAmounts } from '../ecs/GameEvents';
+import bundledMaps from '../data/maps.json';
+
+/**
+ * Multiplayer map: fixed resource layout plus one start position per player
+ */
+export interface MapDefinition {
+    id: string;
+    name: string;
+    maxPlayers: number;
+    startingResources: ResourceAmounts;
+    startPositions: { x: number; z: number }[];
+    resourceNodes: ScenarioResourceNode[];
+}
+
+/**
+ * Error thrown for unknown maps or unsupported player counts
+ */
+export class MapError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MapError';
+    }
+}
+
+/**
+ * Maps bundled with the game
+ */
+export const MAPS: readonly MapDefinition[] = bundledMaps.maps;
+
+/**
+ * Find a bundled map
+ * @throws MapError if the id is unknown
+ */
+export function getMap(id: string): MapDefinition {
+    const map = MAPS.find(candidate => candidate.id === id);
+    if (!map) {
+        throw new MapError(`Unknown map '${id}'`);
+    }
+    return map;
+}
+
+/**
+ * Build the starting scenario of a match: every player gets the map's
+ * starting resources, a town hall and two workers at their start
+ * position, in player order. Everyone plays on a team of their own.
+ */
+export function buildMatchScenario(
+    map: MapDefinition,
+    players: readonly { playerId: number; name: string }[],
+    seed: number
+): Scenario {
+    if (players.length > map.maxPlayers) {
+        throw new MapError(`Map '${map.id}' supports at most ${map.maxPlayers} players`);
+    }
+
+    const scenario: Scenario = {
+        name: map.id,
+        seed,
+        resources: { ...map.startingResources },
+        players: players.map(player => ({ id: player.playerId, name: player.name })),
+        units: [],
+        resourceNodes: map.resourceNodes.map(node => ({ ...node })),
+        buildings: []
+    };
+
+    players.forEach(({ playerId }, slot) => {
+        const start = map.startPositions[slot];
+        scenario.buildings.push({ prefab: 'townhall', x: start.x, z: start.z, owner: playerId });
+        scenario.units.push(
+            { x: start.x + 4, z: start.z + 2, owner: playerId },
+            { x: start.x + 4, z: start.z - 2, owner: playerId }
+        );
+    });
+
+    return scenario;
+}
@@ -0,0 +1,114 @@
+import { ResourceAmounts } from '../ecs/GameEvents';
+
+/**
+ * A participant in a game. Units and buildings refer to their player
+ * through an OwnerComponent; costs are paid from and deposits go to the
+ * owner's resources.
+ */
+export interface Player {
+    id: number;
+    name: string;
+    /** Players sharing a team are allies */
+    team: number;
+    /** Display color as a hex number, e.g. 0x3366ff */
+    color: number;
+    resources: ResourceAmounts;
+}
+
+/**
+ * Error thrown for unknown or duplicate player ids
+ */
+export class PlayerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlayerError';
+    }
+}
+
+/**
+ * Colors handed out by slot when a scenario does not choose one
+ */
+export const PLAYER_COLORS: readonly number[] = [0x3366ff, 0xe53935, 0x43a047, 0xfdd835];
+
+/**
+ * PlayerRegistry
+ * The players of the current game, kept in ascending id order so every
+ * peer iterates them the same way.
+ */
+export class PlayerRegistry {
+    private players: Map<number, Player> = new Map();
+
+    /**
+     * Add a player
+     * @throws PlayerError if the id is already taken
+     */
+    add(player: Player): Player {
+        if (this.players.has(player.id)) {
+            throw new PlayerError(`Duplicate player id ${player.id}`);
+        }
+        this.players.set(player.id, player);
+        this.players = new Map([...this.players.entries()].sort(([a], [b]) => a - b));
+        return player;
+    }
+
+    has(id: number): boolean {
+        return this.players.has(id);
+    }
+
+    /**
+     * Get a player
+     * @throws PlayerError if the id is unknown
+     */
+    get(id: number): Player {
+        const player = this.players.get(id);
+        if (!player) {
+            throw new PlayerError(`Unknown player ${id}`);
+        }
+        return player;
+    }
+
+    /**
+     * Get a player, or undefined for unknown ids and unowned entities
+     */
+    find(id: number | null | undefined): Player | undefined {
+        return id === null || id === undefined ? undefined : this.players.get(id);
+    }
+
+    /**
+     * All players in ascending id order
+     */
+    getAll(): Player[] {
+        return Array.from(this.players.values());
+    }
+
+    /**
+     * The player with the lowest id; acts for commands that name no player
+     * (single-player input and scripts)
+     * @throws PlayerError if there are no players
+     */
+    getFirst(): Player {
+        const first = this.players.values().next().value;
+        if (!first) {
+            throw new PlayerError('No players are registered');
+        }
+        return first;
+    }
+
+    /**
+     * Whether two players are on the same team (a player is its own ally)
+     */
+    areAllies(a: number, b: number): boolean {
+        return a === b || this.get(a).team === this.get(b).team;
+    }
+
+    get size(): number {
+        return this.players.size;
+    }
+
+    /**
+     * Remove every player
+     */
+    clear(): void {
+        this.players.clear();
+    }
+}
@@ -0,0 +1,236 @@
+import { World } from '../ecs/World';
+import { ResourceAmounts } from '../ecs/GameEvents';
+import { PlayerRegistry } from './Players';
+import { addAmounts, hasAmounts, subtractAmounts } from './ResourceTypes';
+
+/**
+ * Number of history entries kept; totals cover the whole game
+ */
+export const LEDGER_HISTORY_LIMIT = 500;
+
+/**
+ * One change to a player's stockpile
+ */
+export interface LedgerEntry {
+    tick: number;
+    playerId: number;
+    /** Income adds resources, expense removes them, refund gives spent or reserved resources back */
+    kind: 'income' | 'expense' | 'refund';
+    amounts: ResourceAmounts;
+    /** What the change was for, e.g. 'gather', 'train:worker' or 'build:house' */
+    reason: string;
+}
+
+/**
+ * Resources taken from a player for something that may still be cancelled
+ */
+export interface Reservation {
+    id: number;
+    playerId: number;
+    amounts: ResourceAmounts;
+    reason: string;
+}
+
+/**
+ * Whole-game sums of a player's ledger entries
+ */
+export interface LedgerTotals {
+    playerId: number;
+    income: ResourceAmounts;
+    expense: ResourceAmounts;
+    refund: ResourceAmounts;
+}
+
+/**
+ * JSON-compatible ledger state stored in snapshots
+ */
+export interface LedgerState {
+    nextReservationId: number;
+    reservations: Reservation[];
+    history: LedgerEntry[];
+    totals: LedgerTotals[];
+}
+
+/**
+ * Error thrown for unknown reservations
+ */
+export class LedgerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LedgerError';
+    }
+}
+
+/**
+ * ResourceLedger
+ * The only place that changes player stockpiles. Spending is atomic over
+ * every resource in a cost. Queued items reserve their cost: it leaves
+ * the stockpile straight away (recorded as an expense) and is either
+ * committed when the item is done or released as a refund when it is
+ * cancelled.
+ */
+export class ResourceLedger {
+    private world: World;
+    private players: PlayerRegistry;
+    private nextReservationId: number = 1;
+    private reservations: Map<number, Reservation> = new Map();
+    private history: LedgerEntry[] = [];
+    private totals: Map<number, LedgerTotals> = new Map();
+
+    constructor(world: World, players: PlayerRegistry) {
+        this.world = world;
+        this.players = players;
+    }
+
+    /**
+     * Whether a player's stockpile covers a cost
+     * @throws PlayerError if the player is unknown
+     */
+    canAfford(playerId: number, cost: ResourceAmounts): boolean {
+        return hasAmounts(this.players.get(playerId).resources, cost);
+    }
+
+    /**
+     * Take a cost from a player, all of it or nothing
+     * @returns false if the player cannot afford it
+     * @throws PlayerError if the player is unknown
+     */
+    spend(playerId: number, cost: ResourceAmounts, reason: string): boolean {
+        if (!this.canAfford(playerId, cost)) return false;
+
+        subtractAmounts(this.players.get(playerId).resources, cost);
+        this.record(playerId, 'expense', cost, reason);
+        return true;
+    }
+
+    /**
+     * Take a cost from a player and hold it until committed or released
+     * @returns The reservation id, or null if the player cannot afford it
+     * @throws PlayerError if the player is unknown
+     */
+    reserve(playerId: number, cost: ResourceAmounts, reason: string): number | null {
+        if (!this.spend(playerId, cost, reason)) return null;
+
+        const id = this.nextReservationId++;
+        this.reservations.set(id, { id, playerId, amounts: { ...cost }, reason });
+        return id;
+    }
+
+    /**
+     * Keep reserved resources spent for good
+     * @throws LedgerError if the reservation is unknown
+     */
+    commit(reservationId: number): void {
+        this.take(reservationId);
+    }
+
+    /**
+     * Give reserved resources back to their player
+     * @throws LedgerError if the reservation is unknown
+     */
+    release(reservationId: number): void {
+        const reservation = this.take(reservationId);
+        this.refund(reservation.playerId, reservation.amounts, reservation.reason);
+    }
+
+    /**
+     * Give spent resources back, e.g. for cancelled construction
+     * @throws PlayerError if the player is unknown
+     */
+    refund(playerId: number, amounts: ResourceAmounts, reason: string): void {
+        addAmounts(this.players.get(playerId).resources, amounts);
+        this.record(playerId, 'refund', amounts, reason);
+    }
+
+    /**
+     * Add income to a player's stockpile
+     * @throws PlayerError if the player is unknown
+     */
+    deposit(playerId: number, amounts: ResourceAmounts, reason: string): void {
+        addAmounts(this.players.get(playerId).resources, amounts);
+        this.record(playerId, 'income', amounts, reason);
+    }
+
+    /**
+     * Resources a player has reserved and not yet committed
+     */
+    getReserved(playerId: number): ResourceAmounts {
+        const reserved: ResourceAmounts = {};
+        for (const reservation of this.reservations.values()) {
+            if (reservation.playerId === playerId) {
+                addAmounts(reserved, reservation.amounts);
+            }
+        }
+        return reserved;
+    }
+
+    /**
+     * Recent stockpile changes, oldest first
+     * @param playerId Only entries of this player
+     */
+    getHistory(playerId?: number): LedgerEntry[] {
+        return playerId === undefined
+            ? [...this.history]
+            : this.history.filter(entry => entry.playerId === playerId);
+    }
+
+    /**
+     * Whole-game income, expense and refund sums of a player
+     */
+    getTotals(playerId: number): LedgerTotals {
+        const totals = this.totals.get(playerId);
+        return totals
+            ? { playerId, income: { ...totals.income }, expense: { ...totals.expense }, refund: { ...totals.refund } }
+            : { playerId, income: {}, expense: {}, refund: {} };
+    }
+
+    /**
+     * Forget every reservation and all history (a new game started)
+     */
+    clear(): void {
+        this.nextReservationId = 1;
+        this.reservations.clear();
+        this.history = [];
+        this.totals.clear();
+    }
+
+    getState(): LedgerState {
+        return JSON.parse(JSON.stringify({
+            nextReservationId: this.nextReservationId,
+            reservations: Array.from(this.reservations.values()),
+            history: this.history,
+            totals: Array.from(this.totals.values())
+        }));
+    }
+
+    restore(state: LedgerState): void {
+        const copy: LedgerState = JSON.parse(JSON.stringify(state));
+        this.nextReservationId = copy.nextReservationId;
+        this.reservations = new Map(copy.reservations.map(reservation => [reservation.id, reservation]));
+        this.history = copy.history;
+        this.totals = new Map(copy.totals.map(totals => [totals.playerId, totals]));
+    }
+
+    private take(reservationId: number): Reservation {
+        const reservation = this.reservations.get(reservationId);
+        if (!reservation) {
+            throw new LedgerError(`Unknown reservation ${reservationId}`);
+        }
+        this.reservations.delete(reservationId);
+        return reservation;
+    }
+
+    private record(playerId: number, kind: LedgerEntry['kind'], amounts: ResourceAmounts, reason: string): void {
+        this.history.push({ tick: this.world.getTick(), playerId, kind, amounts: { ...amounts }, reason });
+        if (this.history.length > LEDGER_HISTORY_LIMIT) {
+            this.history.shift();
+        }
+
+        let totals = this.totals.get(playerId);
+        if (!totals) {
+            totals = { playerId, income: {}, expense: {}, refund: {} };
+            this.totals.set(playerId, totals);
+        }
+        addAmounts(totals[kind], amounts);
+    }
+}
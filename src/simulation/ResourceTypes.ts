@@ -0,0 +1,150 @@
+import { ResourceAmounts, ResourceKind } from '../ecs/GameEvents';
+import bundledResources from '../data/resources.json';
+
+/**
+ * Data-driven description of a resource players collect and spend
+ */
+export interface ResourceTypeDefinition {
+    id: ResourceKind;
+    name: string;
+    /** Short text or emoji shown in the HUD */
+    icon: string;
+    /** CSS color of the HUD entry */
+    color: string;
+    /** What every player starts with unless the scenario says otherwise */
+    startingAmount: number;
+    /** How depleted nodes grow back; nodes of types without it are removed */
+    regrowth?: RegrowthRule;
+}
+
+/**
+ * Regrowth of depleted nodes of a resource type.
+ * A regrowing node stays depleted until it is completely full: workers
+ * cannot gather from it or be ordered to it, and it only frees up (and
+ * emits resourceRegrown) once its amount is back at the maximum. At
+ * `rate` a node takes `delay + maxAmount / rate` seconds to come back.
+ */
+export interface RegrowthRule {
+    /** Seconds a node stays depleted before it starts growing back (0 or more) */
+    delay: number;
+    /** Amount regained per second; must be above 0 or nodes never come back */
+    rate: number;
+}
+
+/**
+ * Error thrown for invalid resource type definitions or unknown ids
+ */
+export class ResourceTypeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ResourceTypeError';
+    }
+}
+
+/**
+ * ResourceTypeRegistry
+ * Holds the resource types of a game, in definition order.
+ */
+export class ResourceTypeRegistry {
+    private types: Map<ResourceKind, ResourceTypeDefinition> = new Map();
+
+    /**
+     * Create a registry loaded with the bundled resource types
+     */
+    static withDefaults(): ResourceTypeRegistry {
+        const registry = new ResourceTypeRegistry();
+        registry.load(bundledResources.resources);
+        return registry;
+    }
+
+    /**
+     * Add resource type definitions
+     * @throws ResourceTypeError on duplicate ids or regrowth rules that
+     * would never bring a node back
+     */
+    load(definitions: ResourceTypeDefinition[]): void {
+        for (const definition of definitions) {
+            if (this.types.has(definition.id)) {
+                throw new ResourceTypeError(`Duplicate resource type '${definition.id}'`);
+            }
+            const regrowth = definition.regrowth;
+            if (regrowth && !(regrowth.rate > 0 && regrowth.delay >= 0)) {
+                throw new ResourceTypeError(
+                    `Resource type '${definition.id}' needs a regrowth rate above 0 and a delay of 0 or more`
+                );
+            }
+            this.types.set(definition.id, definition);
+        }
+    }
+
+    has(id: ResourceKind): boolean {
+        return this.types.has(id);
+    }
+
+    /**
+     * Get a resource type definition
+     * @throws ResourceTypeError if the id is unknown
+     */
+    get(id: ResourceKind): ResourceTypeDefinition {
+        const definition = this.types.get(id);
+        if (!definition) {
+            throw new ResourceTypeError(`Unknown resource type '${id}'`);
+        }
+        return definition;
+    }
+
+    getAll(): ResourceTypeDefinition[] {
+        return Array.from(this.types.values());
+    }
+
+    /**
+     * Every type at its starting amount, with the given amounts on top
+     * @throws ResourceTypeError if an override names an unknown type
+     */
+    startingAmounts(overrides: ResourceAmounts = {}): ResourceAmounts {
+        const amounts: ResourceAmounts = {};
+        for (const type of this.types.values()) {
+            amounts[type.id] = type.startingAmount;
+        }
+        for (const [id, amount] of Object.entries(overrides)) {
+            amounts[this.get(id).id] = amount;
+        }
+        return amounts;
+    }
+
+    /**
+     * Human-readable amounts in definition order, e.g. "Gold: 100, Wood: 80"
+     * @param empty Text for amounts that are all zero
+     */
+    format(amounts: ResourceAmounts, empty: string = 'Free'): string {
+        const parts = this.getAll()
+            .filter(type => (amounts[type.id] ?? 0) !== 0)
+            .map(type => `${type.name}: ${amounts[type.id]}`);
+        return parts.length > 0 ? parts.join(', ') : empty;
+    }
+}
+
+/**
+ * Whether the available amounts cover every required amount
+ */
+export function hasAmounts(available: ResourceAmounts, required: ResourceAmounts): boolean {
+    return Object.entries(required).every(([id, amount]) => (available[id] ?? 0) >= amount);
+}
+
+/**
+ * Add amounts to a stockpile in place
+ */
+export function addAmounts(target: ResourceAmounts, amounts: ResourceAmounts): void {
+    for (const [id, amount] of Object.entries(amounts)) {
+        target[id] = (target[id] ?? 0) + amount;
+    }
+}
+
+/**
+ * Remove amounts from a stockpile in place (callers check hasAmounts first)
+ */
+export function subtractAmounts(target: ResourceAmounts, amounts: ResourceAmounts): void {
+    for (const [id, amount] of Object.entries(amounts)) {
+        target[id] = (target[id] ?? 0) - amount;
+    }
+}
@@ -0,0 +1,87 @@
+import { ResourceAmounts } from '../ecs/GameEvents';
+
+/**
+ * Scenario
+ * Plain, JSON-compatible description of a game's starting state
+ */
+export interface Scenario {
+    name: string;
+    /** Seed for the World's random streams (defaults to 0) */
+    seed?: number;
+    /** Starting resources of players that do not set their own; types left out start at their data default */
+    resources: ResourceAmounts;
+    /** Participants; a single player 0 is created when omitted */
+    players?: ScenarioPlayer[];
+    units: ScenarioUnit[];
+    resourceNodes: ScenarioResourceNode[];
+    /** Resource nodes placed at random positions drawn from the seed */
+    scatteredResources?: ScenarioScatter[];
+    buildings: ScenarioBuilding[];
+}
+
+export interface ScenarioPlayer {
+    id: number;
+    name?: string;
+    /** Defaults to a team of its own */
+    team?: number;
+    /** Hex color; defaults to the slot's color */
+    color?: number;
+    resources?: ResourceAmounts;
+}
+
+export interface ScenarioUnit {
+    /** Prefab id (defaults to 'worker') */
+    prefab?: string;
+    x: number;
+    z: number;
+    /** Controlling player (defaults to the first player) */
+    owner?: number;
+    /** Whether an idle worker looks for resources by itself (defaults to the prefab's setting) */
+    autoGather?: boolean;
+}
+
+export interface ScenarioResourceNode {
+    /** Prefab id, e.g. 'gold_mine' or 'tree' */
+    prefab: string;
+    x: number;
+    z: number;
+    /** Overrides the prefab's starting amount */
+    amount?: number;
+}
+
+export interface ScenarioScatter {
+    /** Prefab ids to choose from, e.g. ['gold_mine', 'tree'] */
+    prefabs: string[];
+    count: number;
+    /** Nodes are placed within [-extent, extent] on both axes */
+    extent: number;
+}
+
+export interface ScenarioBuilding {
+    /** Prefab id, e.g. 'townhall' */
+    prefab: string;
+    x: number;
+    z: number;
+    /** Controlling player (defaults to the first player) */
+    owner?: number;
+}
+
+/**
+ * Small fixed scenario used by the headless runner
+ */
+export const DEFAULT_SCENARIO: Scenario = {
+    name: 'default',
+    resources: { gold: 0, wood: 0 },
+    units: [
+        { x: 2, z: 2, autoGather: true },
+        { x: -2, z: 2, autoGather: true }
+    ],
+    resourceNodes: [
+        { prefab: 'gold_mine', x: 8, z: 0 },
+        { prefab: 'tree', x: -8, z: 4 },
+        { prefab: 'tree', x: -6, z: -6 }
+    ],
+    buildings: [
+        { prefab: 'townhall', x: 0, z: -4 }
+    ]
+};
@@ -0,0 +1,58 @@
+import { World } from '../ecs/World';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { SupplyComponent } from '../ecs/components/SupplyComponent';
+import { BuildingComponent } from '../ecs/components/BuildingComponent';
+import { ProductionQueueComponent } from '../ecs/components/ProductionQueueComponent';
+import { PrefabRegistry } from '../factories/PrefabRegistry';
+
+/**
+ * Upper bound of any player's supply cap, however many houses they build
+ */
+export const MAX_SUPPLY = 200;
+
+/**
+ * A player's population: supply in use and the current cap
+ */
+export interface SupplyTally {
+    used: number;
+    max: number;
+}
+
+/**
+ * Count every player's supply. Units take up supply from the moment
+ * their production starts, so buildings cannot train past the cap in
+ * parallel; queued units that have not started yet take up nothing.
+ */
+export function tallySupply(world: World, prefabs: PrefabRegistry): Map<number, SupplyTally> {
+    const tallies = new Map<number, SupplyTally>();
+    const tallyOf = (playerId: number): SupplyTally => {
+        let tally = tallies.get(playerId);
+        if (!tally) {
+            tally = { used: 0, max: 0 };
+            tallies.set(playerId, tally);
+        }
+        return tally;
+    };
+
+    for (const entity of world.queryEntities(SupplyComponent, OwnerComponent)) {
+        const supply = entity.requireComponent(SupplyComponent);
+        const tally = tallyOf(entity.requireComponent(OwnerComponent).playerId);
+        tally.used += supply.cost;
+        // Houses under construction do not house anyone yet
+        if (entity.getComponent(BuildingComponent)?.isConstructed ?? true) {
+            tally.max += supply.provided;
+        }
+    }
+
+    for (const entity of world.queryEntities(ProductionQueueComponent, OwnerComponent)) {
+        const current = entity.requireComponent(ProductionQueueComponent).queue[0];
+        if (current && current.progress > 0) {
+            tallyOf(entity.requireComponent(OwnerComponent).playerId).used += prefabs.getSupplyCost(current.unitType);
+        }
+    }
+
+    for (const tally of tallies.values()) {
+        tally.max = Math.min(tally.max, MAX_SUPPLY);
+    }
+    return tallies;
+}
@@ -0,0 +1,249 @@
+import { System, SystemPhase } from '../ecs/System';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { ComponentClass } from '../ecs/Component';
+import { MovementComponent } from '../ecs/components/MovementComponent';
+import { GatheringComponent, WorkerState } from '../ecs/components/GatheringComponent';
+import { BuildingComponent } from '../ecs/components/BuildingComponent';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { BuildingPlacementRules } from '../simulation/BuildingPlacementRules';
+import { Command, CommandError, CommandQueue, parseCommand } from '../simulation/Commands';
+import { PlayerRegistry } from '../simulation/Players';
+import { ProductionSystem } from './ProductionSystem';
+import * as THREE from 'three';
+
+/**
+ * CommandProcessor applies queued player commands at the start of each tick.
+ * Every command is checked for a well-formed shape and validated against
+ * the current world state; rejected
+ * commands are reported through a commandRejected event. Commands that
+ * carry a playerId may only order entities that player owns; commands
+ * without one act for the first player when something has to be paid.
+ */
+export class CommandProcessor implements System {
+    readonly name = 'CommandProcessor';
+    requiredComponents = [];
+    phase = SystemPhase.INPUT;
+    // Orders apply after positions are recorded for interpolation
+    runAfter = ['TransformHistorySystem'];
+    enabled = true;
+    priority = 0;
+
+    private world: World;
+    private commands: CommandQueue;
+    private players: PlayerRegistry;
+    private buildingRules: BuildingPlacementRules;
+    private productionSystem: ProductionSystem;
+
+    constructor(
+        world: World,
+        commands: CommandQueue,
+        players: PlayerRegistry,
+        buildingRules: BuildingPlacementRules,
+        productionSystem: ProductionSystem
+    ) {
+        this.world = world;
+        this.commands = commands;
+        this.players = players;
+        this.buildingRules = buildingRules;
+        this.productionSystem = productionSystem;
+    }
+
+    update(_deltaTime: number, _entities: readonly Entity[]): void {
+        for (const command of this.commands.drain()) {
+            const rejection = this.execute(command);
+            if (rejection) {
+                // A malformed command may carry fields of any type
+                this.world.events.emit('commandRejected', {
+                    commandType: String(command.type),
+                    reason: rejection,
+                    playerId: Number.isInteger(command.playerId) ? command.playerId! : null
+                });
+            }
+        }
+    }
+
+    /**
+     * Apply a single command
+     * @returns Why the command was rejected, or null if it was applied
+     */
+    private execute(queued: Command): string | null {
+        let command: Command;
+        try {
+            command = parseCommand(queued);
+        } catch (error) {
+            if (error instanceof CommandError) return `Malformed command: ${error.message}`;
+            throw error;
+        }
+
+        if (command.playerId !== undefined && !this.players.has(command.playerId)) {
+            return 'Unknown player';
+        }
+
+        switch (command.type) {
+            case 'move': {
+                const units = this.resolveUnits(command, MovementComponent);
+                if (units.length === 0) return 'No units can move';
+
+                const target = new THREE.Vector3(command.x, 0.5, command.z);
+                for (const unit of units) {
+                    this.clearGatherOrder(unit);
+                    unit.requireComponent(MovementComponent).setTarget(target);
+                }
+                return null;
+            }
+
+            case 'gather': {
+                const resourceEntity = this.world.getEntity(command.resourceId);
+                const resource = resourceEntity?.getComponent(ResourceComponent);
+                const resourceTransform = resourceEntity?.getComponent(TransformComponent);
+                if (!resourceEntity || !resource || !resourceTransform) return 'Target is not a resource';
+                if (resource.depleted) return 'Resource is depleted';
+
+                const workers = this.resolveUnits(command, GatheringComponent, MovementComponent);
+                if (workers.length === 0) return 'No units can gather';
+
+                for (const worker of workers) {
+                    worker.requireComponent(GatheringComponent).assign(resourceEntity.id);
+                    worker.requireComponent(MovementComponent).setTarget(resourceTransform.position);
+                }
+                return null;
+            }
+
+            case 'stop': {
+                const units = this.resolveUnits(command, MovementComponent);
+                if (units.length === 0) return 'No units can stop';
+
+                for (const unit of units) {
+                    this.clearGatherOrder(unit);
+                    unit.requireComponent(MovementComponent).stop();
+                }
+                return null;
+            }
+
+            case 'autoGather': {
+                const workers = this.resolveUnits(command, GatheringComponent);
+                if (workers.length === 0) return 'No units can gather';
+
+                for (const worker of workers) {
+                    worker.requireComponent(GatheringComponent).autoGather = command.enabled;
+                }
+                return null;
+            }
+
+            case 'build': {
+                if (!this.buildingRules.isBuildable(command.buildingType)) return 'Unknown building type';
+                if (!this.buildingRules.isValidPlacement(new THREE.Vector3(command.x, 0, command.z))) {
+                    return 'Too close to another building';
+                }
+
+                const owner = command.playerId ?? this.players.getFirst().id;
+                const building = this.buildingRules.placeBuilding(command.buildingType, command.x, command.z, owner);
+                if (!building) return 'Not enough resources';
+
+                const builders = this.resolveUnits({ ...command, entityIds: command.entityIds ?? [] }, GatheringComponent, MovementComponent);
+                if (builders.length === 0) {
+                    const nearest = this.findIdleBuilder(owner, command.x, command.z);
+                    if (nearest) builders.push(nearest);
+                }
+                this.sendBuilders(building, builders);
+                return null;
+            }
+
+            case 'construct': {
+                const site = this.world.getEntity(command.buildingId);
+                const building = site?.getComponent(BuildingComponent);
+                if (!site || !building || building.isConstructed) return 'Target is not a construction site';
+                if (!this.controls(command.playerId, site.id)) return 'Building belongs to another player';
+
+                const workers = this.resolveUnits(command, GatheringComponent, MovementComponent);
+                if (workers.length === 0) return 'No units can build';
+
+                this.sendBuilders(site, workers);
+                return null;
+            }
+
+            case 'train': {
+                if (command.buildingId !== null && !this.controls(command.playerId, command.buildingId)) {
+                    return 'Building belongs to another player';
+                }
+
+                return command.buildingId === null
+                    ? this.productionSystem.trainAtAnyBarracks(command.unitType, command.playerId)
+                    : this.productionSystem.trainUnit(command.buildingId, command.unitType);
+            }
+
+            case 'demolish': {
+                const buildingId = command.buildingId ?? this.buildingRules.findConstructionSite(command.playerId);
+                if (buildingId === null) return 'Nothing is under construction';
+                if (!this.controls(command.playerId, buildingId)) return 'Building belongs to another player';
+
+                this.productionSystem.cancelAllUnits(buildingId);
+                const demolished = this.buildingRules.demolishBuilding(buildingId);
+                return demolished ? null : 'Target is not a building';
+            }
+
+            case 'cancel': {
+                const buildingId = command.buildingId ?? this.productionSystem.findBusyBuilding(command.playerId);
+                if (buildingId === null) return 'Nothing is in production';
+                if (!this.controls(command.playerId, buildingId)) return 'Building belongs to another player';
+
+                const cancelled = this.productionSystem.cancelUnit(buildingId, command.index);
+                return cancelled ? null : 'Nothing to cancel';
+            }
+        }
+    }
+
+    /**
+     * Live entities of a command that have the given components and that
+     * the issuing player controls
+     */
+    private resolveUnits(command: { entityIds: EntityId[]; playerId?: number }, ...components: ComponentClass[]): Entity[] {
+        const units: Entity[] = [];
+        for (const id of command.entityIds) {
+            const entity = this.world.getEntity(id);
+            if (entity && entity.hasComponents(...components) && this.controls(command.playerId, id)) {
+                units.push(entity);
+            }
+        }
+        return units;
+    }
+
+    /**
+     * Whether a player may order an entity (unowned entities obey anyone)
+     */
+    private controls(playerId: number | undefined, entityId: EntityId): boolean {
+        if (playerId === undefined) return true;
+        const owner = this.world.getEntity(entityId)?.getComponent(OwnerComponent);
+        return !owner || owner.playerId === playerId;
+    }
+
+    /**
+     * The owner's nearest worker that is not already building, if any
+     */
+    private findIdleBuilder(playerId: number, x: number, z: number): Entity | null {
+        return this.world.spatial.nearest(x, z, entity =>
+            entity.hasComponents(GatheringComponent, MovementComponent)
+            && entity.getComponent(OwnerComponent)?.playerId === playerId
+            && entity.requireComponent(GatheringComponent).state !== WorkerState.BUILDING
+        );
+    }
+
+    /**
+     * Order workers to a construction site; the ConstructionSystem walks
+     * them there
+     */
+    private sendBuilders(site: Entity, workers: readonly Entity[]): void {
+        for (const worker of workers) {
+            worker.requireComponent(MovementComponent).stop();
+            worker.requireComponent(GatheringComponent).construct(site.id);
+        }
+    }
+
+    private clearGatherOrder(unit: Entity): void {
+        unit.getComponent(GatheringComponent)?.clearOrders();
+    }
+}
@@ -0,0 +1,113 @@
+import { System } from '../ecs/System';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { BuildingComponent } from '../ecs/components/BuildingComponent';
+import { GatheringComponent, WorkerState } from '../ecs/components/GatheringComponent';
+import { MovementComponent } from '../ecs/components/MovementComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+import { ResourceLedger } from '../simulation/ResourceLedger';
+import * as THREE from 'three';
+
+/**
+ * Ground distance from a site's center within which workers build
+ */
+const BUILD_RANGE = 3;
+
+/**
+ * ConstructionSystem walks BUILDING workers to their sites and advances
+ * each site over its build time while at least one of its workers is at
+ * it. When a site is finished its reserved cost is committed to the
+ * ledger and its workers go back to what they were doing.
+ */
+export class ConstructionSystem implements System {
+    readonly name = 'ConstructionSystem';
+    requiredComponents = [BuildingComponent];
+    enabled = true;
+    priority = 0;
+
+    private world: World;
+    private ledger: ResourceLedger;
+
+    constructor(world: World, ledger: ResourceLedger) {
+        this.world = world;
+        this.ledger = ledger;
+    }
+
+    update(deltaTime: number, entities: readonly Entity[]): void {
+        const staffed = this.updateBuilders();
+
+        for (const entity of entities) {
+            const building = entity.requireComponent(BuildingComponent);
+            if (building.isConstructed || !staffed.has(entity.id)) continue;
+
+            // Buildings without a build time finish on their first worked tick
+            const step = building.buildTime > 0 ? deltaTime / building.buildTime * 100 : 100;
+            building.constructionProgress = Math.min(100, building.constructionProgress + step);
+            if (building.constructionProgress < 100) continue;
+
+            building.isConstructed = true;
+            if (building.reservationId !== null) {
+                this.ledger.commit(building.reservationId);
+                building.reservationId = null;
+            }
+            this.releaseBuilders(entity.id);
+
+            this.world.events.emit('buildingConstructed', {
+                entityId: entity.id,
+                buildingType: building.buildingType,
+                playerId: entity.getComponent(OwnerComponent)?.playerId ?? null
+            });
+        }
+    }
+
+    /**
+     * Walk BUILDING workers to their sites; workers whose site is gone or
+     * finished go back to work
+     * @returns Sites with a worker in build range
+     */
+    private updateBuilders(): Set<EntityId> {
+        const staffed = new Set<EntityId>();
+
+        for (const worker of this.builders()) {
+            const gathering = worker.requireComponent(GatheringComponent);
+            const site = gathering.constructionSiteId === null ? undefined : this.world.getEntity(gathering.constructionSiteId);
+            if (!site || (site.getComponent(BuildingComponent)?.isConstructed ?? true)) {
+                gathering.stopConstructing();
+                continue;
+            }
+
+            const movement = worker.requireComponent(MovementComponent);
+            const target = site.requireComponent(TransformComponent).position;
+            const position = worker.requireComponent(TransformComponent).position;
+            const dx = target.x - position.x;
+            const dz = target.z - position.z;
+
+            if (dx * dx + dz * dz > BUILD_RANGE * BUILD_RANGE) {
+                if (!movement.isMoving) {
+                    movement.setTarget(new THREE.Vector3(target.x, position.y, target.z));
+                }
+                continue;
+            }
+
+            movement.stop();
+            staffed.add(site.id);
+        }
+        return staffed;
+    }
+
+    private releaseBuilders(siteId: EntityId): void {
+        for (const worker of this.builders()) {
+            const gathering = worker.requireComponent(GatheringComponent);
+            if (gathering.constructionSiteId === siteId) {
+                gathering.stopConstructing();
+            }
+        }
+    }
+
+    private builders(): Entity[] {
+        return this.world.queryEntities(GatheringComponent, MovementComponent, TransformComponent)
+            .filter(worker => worker.requireComponent(GatheringComponent).state === WorkerState.BUILDING);
+    }
+}
@@ -1,121 +1,234 @@
 import { System } from '../ecs/System';
 import { World } from '../ecs/World';
 import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
 import { ProductionQueueComponent } from '../ecs/components/ProductionQueueComponent';
 import { BuildingComponent } from '../ecs/components/BuildingComponent';
 import { TransformComponent } from '../ecs/components/TransformComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { PrefabRegistry } from '../factories/PrefabRegistry';
+import { Player, PlayerRegistry } from '../simulation/Players';
+import { ResourceLedger } from '../simulation/ResourceLedger';
+import { SupplyTally, tallySupply } from '../simulation/Supply';
 import * as THREE from 'three';
 
 export class ProductionSystem implements System {
-    requiredComponents = [] as const;
+    readonly name = 'ProductionSystem';
+    requiredComponents = [];
     enabled = true;
     priority = 0;
 
     private world: World;
-    private scene: THREE.Scene;
-    private gameResources: { gold: number; wood: number };
-    private unitFactory: any;
+    private players: PlayerRegistry;
+    private ledger: ResourceLedger;
+    private prefabs: PrefabRegistry;
 
-    constructor(world: World, scene: THREE.Scene, gameResources: { gold: number; wood: number }, unitFactory: any) {
+    constructor(world: World, players: PlayerRegistry, ledger: ResourceLedger, prefabs: PrefabRegistry) {
         this.world = world;
-        this.scene = scene;
-        this.gameResources = gameResources;
-        this.unitFactory = unitFactory;
+        this.players = players;
+        this.ledger = ledger;
+        this.prefabs = prefabs;
     }
 
-    update(deltaTime: number, entities: Entity[]): void {
-        const productionBuildings = this.world.getEntitiesWithComponents([
-            ProductionQueueComponent.TYPE,
-            BuildingComponent.TYPE,
-            TransformComponent.TYPE
-        ]);
+    update(deltaTime: number, _entities: readonly Entity[]): void {
+        const productionBuildings = this.world.queryEntities(
+            ProductionQueueComponent,
+            BuildingComponent,
+            TransformComponent
+        );
+        const supply = tallySupply(this.world, this.prefabs);
 
         for (const building of productionBuildings) {
-            const queue = building.getComponent(ProductionQueueComponent.TYPE) as ProductionQueueComponent;
+            if (!building.requireComponent(BuildingComponent).isConstructed) continue;
+            const queue = building.requireComponent(ProductionQueueComponent);
 
-            if (queue.queue.length > 0) {
+            if (queue.queue.length === 0) {
+                queue.supplyBlocked = false;
+            } else {
                 const currentUnit = queue.queue[0];
+
+                // A unit only starts once its owner has supply left for it
+                if (currentUnit.progress === 0 && !this.reserveSupply(building, currentUnit.unitType, supply)) {
+                    continue;
+                }
+                queue.supplyBlocked = false;
+
                 currentUnit.progress += deltaTime * queue.productionRate * 20;
 
                 if (currentUnit.progress >= 100) {
-                    const transform = building.getComponent(TransformComponent.TYPE) as TransformComponent;
+                    const transform = building.requireComponent(TransformComponent);
 
                     const spawnOffset = new THREE.Vector3(3, 0, 0);
                     const spawnPos = transform.position.clone().add(spawnOffset);
 
-                    const newUnit = this.unitFactory.createUnit(spawnPos.x, spawnPos.y, spawnPos.z);
-
-                    // Add gathering component to new units
-                    const { GatheringComponent } = require('../ecs/components/GatheringComponent');
-                    newUnit.addComponent(new GatheringComponent(10, 10));
+                    // Units belong to whoever owns the building that trained them
+                    const owner = building.getComponent(OwnerComponent)?.playerId ?? null;
+                    const unit = this.prefabs.spawn(currentUnit.unitType, spawnPos, owner);
 
                     queue.queue.shift();
-
-                    console.log(`Unit ${currentUnit.unitType} completed!`);
+                    if (currentUnit.reservationId !== null) {
+                        this.ledger.commit(currentUnit.reservationId);
+                    }
+
+                    this.world.events.emit('unitTrained', {
+                        entityId: unit.id,
+                        unitType: currentUnit.unitType,
+                        buildingId: building.id,
+                        playerId: owner
+                    });
                 }
             }
         }
     }
 
-    trainUnit(buildingId: string): boolean {
+    /**
+     * Count a starting unit against its owner's supply, or mark the
+     * building as supply blocked if the cap is reached
+     */
+    private reserveSupply(building: Entity, unitType: string, supply: Map<number, SupplyTally>): boolean {
+        const ownerId = building.getComponent(OwnerComponent)?.playerId;
+        const cost = this.prefabs.getSupplyCost(unitType);
+        if (ownerId === undefined || cost === 0) return true;
+
+        const tally = supply.get(ownerId) ?? { used: 0, max: 0 };
+        if (tally.used + cost > tally.max) {
+            const queue = building.requireComponent(ProductionQueueComponent);
+            if (!queue.supplyBlocked) {
+                queue.supplyBlocked = true;
+                this.world.events.emit('supplyBlocked', {
+                    buildingId: building.id,
+                    unitType,
+                    playerId: ownerId,
+                    used: tally.used,
+                    max: tally.max
+                });
+            }
+            return false;
+        }
+
+        tally.used += cost;
+        supply.set(ownerId, tally);
+        return true;
+    }
+
+    /**
+     * Queue a unit at a building. Its cost is reserved from the building's
+     * owner until the unit is trained or cancelled.
+     * @returns Why the unit was not queued, or null if it was
+     */
+    trainUnit(buildingId: EntityId, unitType: string = 'worker'): string | null {
+        const building = this.world.getEntity(buildingId);
+        const queue = building?.getComponent(ProductionQueueComponent);
+        if (!building || !queue) return 'Building cannot train units';
+        if (!this.prefabs.isCategory(unitType, 'unit')) return 'Unknown unit type';
+
+        const owner = this.getOwner(building);
+        if (!owner) return 'Building has no owner';
+        if (!(building.getComponent(BuildingComponent)?.isConstructed ?? true)) return 'Building is under construction';
+        if (queue.isFull()) return 'Production queue is full';
+
+        const unitCost = this.prefabs.getCost(unitType);
+        const reservationId = this.ledger.reserve(owner.id, unitCost, `train:${unitType}`);
+
+        if (reservationId === null) {
+            this.world.events.emit('insufficientResources', {
+                action: 'train',
+                itemType: unitType,
+                playerId: owner.id,
+                cost: unitCost,
+                available: { ...owner.resources }
+            });
+            return 'Not enough resources';
+        }
+
+        queue.addToQueue(unitType, unitCost, reservationId);
+        this.world.events.emit('unitQueued', {
+            buildingId: building.id,
+            unitType,
+            playerId: owner.id,
+            queueLength: queue.queue.length
+        });
+        return null;
+    }
+
+    /**
+     * Remove a queued unit and refund its cost to the building's owner
+     * @param index Queue position; defaults to the most recently queued unit
+     */
+    cancelUnit(buildingId: EntityId, index?: number): boolean {
         const building = this.world.getEntity(buildingId);
         if (!building) return false;
 
-        const queue = building.getComponent(ProductionQueueComponent.TYPE) as ProductionQueueComponent;
-        if (!queue) return false;
+        const queue = building.getComponent(ProductionQueueComponent);
+        const owner = this.getOwner(building);
+        if (!queue || !owner) return false;
 
-        const unitCost = { gold: 50, wood: 0 };
+        const removed = queue.removeFromQueue(index ?? queue.queue.length - 1);
+        if (!removed) return false;
 
-        if (this.gameResources.gold < unitCost.gold || this.gameResources.wood < unitCost.wood) {
-            console.log('Not enough resources to train unit');
-            return false;
+        if (removed.reservationId !== null) {
+            this.ledger.release(removed.reservationId);
+        } else {
+            // Queued before the ledger existed (older saves)
+            this.ledger.refund(owner.id, removed.cost, `train:${removed.unitType}`);
+        }
+        return true;
+    }
+
+    /**
+     * Remove every queued unit of a building and refund them (e.g. before it is demolished)
+     */
+    cancelAllUnits(buildingId: EntityId): void {
+        const queue = this.world.getEntity(buildingId)?.getComponent(ProductionQueueComponent);
+        const queued = queue?.queue.length ?? 0;
+        for (let i = 0; i < queued; i++) {
+            this.cancelUnit(buildingId);
         }
+    }
+
+    /**
+     * Find a building that has units in production
+     * @param playerId Only consider buildings this player owns
+     */
+    findBusyBuilding(playerId?: number): EntityId | null {
+        const busy = this.getProductionBuildings(playerId)
+            .find(building => building.requireComponent(ProductionQueueComponent).queue.length > 0);
+        return busy ? busy.id : null;
+    }
 
-        const added = queue.addToQueue('worker', unitCost);
+    /**
+     * Queue a unit at the first available barracks
+     * @param playerId Only consider buildings this player owns
+     * @returns Why the unit was not queued, or null if it was
+     */
+    trainAtAnyBarracks(unitType: string = 'worker', playerId?: number): string | null {
+        const barracks = this.getProductionBuildings(playerId);
 
-        if (added) {
-            this.gameResources.gold -= unitCost.gold;
-            this.gameResources.wood -= unitCost.wood;
-            this.updateResourceUI();
-            console.log('Unit added to production queue');
-            return true;
+        if (barracks.length === 0) {
+            return 'No barracks available';
         }
 
-        return false;
+        return this.trainUnit(barracks[0].id, unitType);
     }
 
-    private updateResourceUI(): void {
-        const goldEl = document.getElementById('gold-amount');
-        const woodEl = document.getElementById('wood-amount');
+    private getOwner(building: Entity): Player | undefined {
+        return this.players.find(building.getComponent(OwnerComponent)?.playerId);
+    }
 
-        if (goldEl) goldEl.textContent = this.gameResources.gold.toString();
-        if (woodEl) woodEl.textContent = this.gameResources.wood.toString();
+    private getProductionBuildings(playerId?: number): Entity[] {
+        const buildings = this.world.queryEntities(ProductionQueueComponent, BuildingComponent)
+            .filter(building => building.requireComponent(BuildingComponent).isConstructed);
+        if (playerId === undefined) {
+            return buildings;
+        }
+        return buildings.filter(building => building.getComponent(OwnerComponent)?.playerId === playerId);
     }
 
     init(): void {
         console.log('ProductionSystem initialized');
-        this.setupUI();
     }
 
     cleanup(): void {
         console.log('ProductionSystem cleanup');
     }
-
-    private setupUI(): void {
-        const trainBtn = document.getElementById('train-worker');
-        if (trainBtn) {
-            trainBtn.addEventListener('click', () => {
-                const barracks = this.world.getEntitiesWithComponents([
-                    ProductionQueueComponent.TYPE,
-                    BuildingComponent.TYPE
-                ]);
-
-                if (barracks.length > 0) {
-                    this.trainUnit(barracks[0].id);
-                } else {
-                    console.log('No barracks available');
-                }
-            });
-        }
-    }
 }
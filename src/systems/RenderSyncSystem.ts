@@ -0,0 +1,45 @@
+import * as THREE from 'three';
+import { System, SystemPhase } from '../ecs/System';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+import { RenderableComponent } from '../ecs/components/RenderableComponent';
+import { SelectableComponent } from '../ecs/components/SelectableComponent';
+
+/**
+ * RenderSyncSystem copies simulation transforms onto their meshes every
+ * frame, interpolating between the last two ticks with the World's alpha
+ */
+export class RenderSyncSystem implements System {
+  readonly name = 'RenderSyncSystem';
+  requiredComponents = [TransformComponent, RenderableComponent];
+  phase = SystemPhase.RENDER;
+  enabled = true;
+  priority = 0;
+
+  private world: World;
+  private interpolated: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  update(_deltaTime: number, entities: readonly Entity[]): void {
+    const alpha = this.world.getInterpolationAlpha();
+
+    for (const entity of entities) {
+      const transform = entity.requireComponent(TransformComponent);
+      const renderable = entity.requireComponent(RenderableComponent);
+      const position = transform.getInterpolatedPosition(alpha, this.interpolated);
+
+      renderable.mesh.position.copy(position);
+
+      // Keep the selection ring under the unit
+      const indicator = entity.getComponent(SelectableComponent)?.selectionIndicator;
+      if (indicator) {
+        indicator.position.x = position.x;
+        indicator.position.z = position.z;
+      }
+    }
+  }
+}
@@ -1,152 +1,382 @@
 import { System } from '../ecs/System';
 import { World } from '../ecs/World';
 import { Entity } from '../ecs/Entity';
-import { GatheringComponent } from '../ecs/components/GatheringComponent';
+import { GatheringComponent, WorkerState } from '../ecs/components/GatheringComponent';
 import { ResourceComponent } from '../ecs/components/ResourceComponent';
 import { TransformComponent } from '../ecs/components/TransformComponent';
 import { MovementComponent } from '../ecs/components/MovementComponent';
+import { OwnerComponent } from '../ecs/components/OwnerComponent';
+import { DropOffComponent } from '../ecs/components/DropOffComponent';
+import { BuildingComponent } from '../ecs/components/BuildingComponent';
+import { EntityId } from '../ecs/EntityId';
+import { ResourceKind } from '../ecs/GameEvents';
+import { PlayerRegistry } from '../simulation/Players';
+import { ResourceLedger } from '../simulation/ResourceLedger';
 import * as THREE from 'three';
 
+/**
+ * Ground distance from a drop-off's center within which workers deliver
+ */
+const DROP_OFF_RANGE = 3;
+
+/**
+ * Distance from a resource node within which workers gather
+ */
+const GATHER_RANGE = 2;
+
+/**
+ * How far idle auto-gathering workers and workers whose node ran out look
+ * for another node
+ */
+const SEARCH_RADIUS = 20;
+
+/**
+ * How far a worker arriving at a full node looks for a free node of the
+ * same type before queuing
+ */
+const ALTERNATE_RADIUS = 8;
+
+/**
+ * ResourceGatheringSystem runs the worker state machine:
+ * IDLE -> MOVING_TO_RESOURCE -> GATHERING -> RETURNING -> DEPOSITING and
+ * back to MOVING_TO_RESOURCE for the remembered node. Idle workers only
+ * look for work themselves when auto-gather is on.
+ * Nodes have a limited number of gatherer slots; workers arriving at a
+ * full node move on to a free node nearby or queue (QUEUED) for a slot.
+ */
 export class ResourceGatheringSystem implements System {
-    requiredComponents = [] as const;
+    readonly name = 'ResourceGatheringSystem';
+    requiredComponents = [];
+    // Arrival checks need this tick's movement applied
+    runAfter = ['MovementSystem'];
     enabled = true;
     priority = 0;
 
     private world: World;
-    private scene: THREE.Scene;
-    private gameResources: { gold: number; wood: number };
+    private players: PlayerRegistry;
+    private ledger: ResourceLedger;
 
-    constructor(world: World, scene: THREE.Scene, gameResources: { gold: number; wood: number }) {
+    constructor(world: World, players: PlayerRegistry, ledger: ResourceLedger) {
         this.world = world;
-        this.scene = scene;
-        this.gameResources = gameResources;
-    }
-
-    update(deltaTime: number, entities: Entity[]): void {
-        const gatheringEntities = this.world.getEntitiesWithComponents([
-            GatheringComponent.TYPE,
-            TransformComponent.TYPE,
-            MovementComponent.TYPE
-        ]);
-
-        for (const entity of gatheringEntities) {
-            const gathering = entity.getComponent(GatheringComponent.TYPE) as GatheringComponent;
-            const transform = entity.getComponent(TransformComponent.TYPE) as TransformComponent;
-            const movement = entity.getComponent(MovementComponent.TYPE) as MovementComponent;
-
-            // If unit is carrying resources and not moving, they should return to base
-            if (gathering.currentCarry >= gathering.carryCapacity && !movement.isMoving) {
-                // Check if near town hall (simplified - check distance to origin)
-                const distanceToBase = transform.position.length();
-
-                if (distanceToBase < 3) {
-                    // Deposit resources
-                    if (gathering.resourceType === 'gold') {
-                        this.gameResources.gold += gathering.currentCarry;
-                    } else if (gathering.resourceType === 'wood') {
-                        this.gameResources.wood += gathering.currentCarry;
-                    }
-
-                    gathering.currentCarry = 0;
-                    gathering.resourceType = null;
-                    gathering.isGathering = false;
-
-                    console.log(`Resources deposited! Gold: ${this.gameResources.gold}, Wood: ${this.gameResources.wood}`);
-                    this.updateResourceUI();
-                }
-            }
+        this.players = players;
+        this.ledger = ledger;
+    }
+
+    update(deltaTime: number, _entities: readonly Entity[]): void {
+        const workers = this.world.queryEntities(
+            GatheringComponent,
+            TransformComponent,
+            MovementComponent
+        );
+
+        this.pruneSlots();
+
+        for (const worker of workers) {
+            const gathering = worker.requireComponent(GatheringComponent);
 
-            // If unit has a target resource and is near it
-            if (gathering.targetResourceId && !movement.isMoving) {
-                const resourceEntity = this.world.getEntity(gathering.targetResourceId);
-
-                if (resourceEntity) {
-                    const resource = resourceEntity.getComponent(ResourceComponent.TYPE) as ResourceComponent;
-                    const resourceTransform = resourceEntity.getComponent(TransformComponent.TYPE) as TransformComponent;
-
-                    if (resource && resourceTransform) {
-                        const distance = transform.position.distanceTo(resourceTransform.position);
-
-                        // If within gathering range
-                        if (distance < 2 && !resource.depleted) {
-                            gathering.isGathering = true;
-                            gathering.gatherTimer += deltaTime;
-
-                            // Gather every second
-                            if (gathering.gatherTimer >= 1.0) {
-                                const gathered = resource.gather(gathering.gatherRate);
-                                gathering.currentCarry += gathered;
-                                gathering.resourceType = resource.type;
-                                gathering.gatherTimer = 0;
-
-                                console.log(`Gathered ${gathered} ${resource.type}`);
-
-                                // If carrying full load, return to base
-                                if (gathering.currentCarry >= gathering.carryCapacity) {
-                                    gathering.isGathering = false;
-                                    gathering.targetResourceId = null;
-                                    // Set movement target to base (origin)
-                                    movement.targetPosition.set(0, 0.5, 0);
-                                    movement.isMoving = true;
-                                }
-                            }
-                        } else if (resource.depleted) {
-                            gathering.targetResourceId = null;
-                            gathering.isGathering = false;
-                        }
-                    }
-                }
+            switch (gathering.state) {
+                case WorkerState.IDLE:
+                    this.updateIdle(worker);
+                    break;
+                case WorkerState.MOVING_TO_RESOURCE:
+                    this.updateMovingToResource(worker);
+                    break;
+                case WorkerState.QUEUED:
+                    this.updateQueued(worker);
+                    break;
+                case WorkerState.GATHERING:
+                    this.updateGathering(worker, deltaTime);
+                    break;
+                case WorkerState.RETURNING:
+                    this.updateReturning(worker);
+                    break;
+                case WorkerState.DEPOSITING:
+                    this.updateDepositing(worker);
+                    break;
+                case WorkerState.BUILDING:
+                    // Construction drives the worker
+                    break;
             }
+        }
+    }
+
+    private updateIdle(worker: Entity): void {
+        const gathering = worker.requireComponent(GatheringComponent);
+        if (!gathering.autoGather || worker.requireComponent(MovementComponent).isMoving) return;
+
+        if (gathering.isFull) {
+            gathering.state = WorkerState.RETURNING;
+            return;
+        }
+
+        const resource = this.findNearestResource(worker, null, false, SEARCH_RADIUS);
+        if (resource) {
+            this.sendToResource(worker, resource);
+        }
+    }
 
-            // Auto-find nearby resources if idle and not carrying
-            if (!gathering.isGathering && !movement.isMoving && gathering.currentCarry === 0) {
-                this.findNearestResource(entity);
+    private updateMovingToResource(worker: Entity): void {
+        const resourceEntity = this.resolveTarget(worker);
+        if (!resourceEntity) return;
+
+        const movement = worker.requireComponent(MovementComponent);
+        if (!this.inGatherRange(worker, resourceEntity)) {
+            if (!movement.isMoving) {
+                movement.setTarget(resourceEntity.requireComponent(TransformComponent).position);
             }
+            return;
+        }
+
+        movement.stop();
+        const gathering = worker.requireComponent(GatheringComponent);
+        const resource = resourceEntity.requireComponent(ResourceComponent);
+
+        if (resource.occupy(worker.id)) {
+            gathering.gatherTimer = 0;
+            gathering.state = WorkerState.GATHERING;
+            return;
+        }
+
+        const alternate = this.findNearestResource(worker, resource.type, true, ALTERNATE_RADIUS);
+        if (alternate) {
+            this.sendToResource(worker, alternate);
+        } else {
+            resource.enqueue(worker.id);
+            gathering.state = WorkerState.QUEUED;
         }
     }
 
-    private findNearestResource(entity: Entity): void {
-        const gathering = entity.getComponent(GatheringComponent.TYPE) as GatheringComponent;
-        const transform = entity.getComponent(TransformComponent.TYPE) as TransformComponent;
-        const movement = entity.getComponent(MovementComponent.TYPE) as MovementComponent;
+    private updateQueued(worker: Entity): void {
+        const resourceEntity = this.resolveTarget(worker);
+        // A worker sent on to another node walks there first
+        if (!resourceEntity || worker.requireComponent(GatheringComponent).state !== WorkerState.QUEUED) return;
 
-        const resourceEntities = this.world.getEntitiesWithComponents([ResourceComponent.TYPE, TransformComponent.TYPE]);
+        if (resourceEntity.requireComponent(ResourceComponent).occupy(worker.id)) {
+            const gathering = worker.requireComponent(GatheringComponent);
+            gathering.gatherTimer = 0;
+            gathering.state = WorkerState.GATHERING;
+        }
+    }
 
-        let nearestResource: Entity | null = null;
-        let nearestDistance = Infinity;
+    private updateGathering(worker: Entity, deltaTime: number): void {
+        const resourceEntity = this.resolveTarget(worker);
+        const gathering = worker.requireComponent(GatheringComponent);
+        if (!resourceEntity || gathering.state !== WorkerState.GATHERING) return;
 
-        for (const resourceEntity of resourceEntities) {
-            const resource = resourceEntity.getComponent(ResourceComponent.TYPE) as ResourceComponent;
-            if (resource.depleted) continue;
+        const resource = resourceEntity.requireComponent(ResourceComponent);
 
-            const resourceTransform = resourceEntity.getComponent(TransformComponent.TYPE) as TransformComponent;
-            const distance = transform.position.distanceTo(resourceTransform.position);
+        // Workers without a slot (e.g. from older saves) line up again
+        if (!this.inGatherRange(worker, resourceEntity) || !resource.occupy(worker.id)) {
+            resource.release(worker.id);
+            gathering.state = WorkerState.MOVING_TO_RESOURCE;
+            return;
+        }
 
-            if (distance < nearestDistance && distance < 20) {
-                nearestDistance = distance;
-                nearestResource = resourceEntity;
+        // Deliver a load of another type before mixing it with this one
+        if (gathering.currentCarry > 0 && gathering.resourceType !== resource.type) {
+            resource.release(worker.id);
+            gathering.state = WorkerState.RETURNING;
+            return;
+        }
+
+        // Gather every second
+        gathering.gatherTimer += deltaTime;
+        if (gathering.gatherTimer < 1.0) return;
+        gathering.gatherTimer = 0;
+
+        const room = gathering.carryCapacity - gathering.currentCarry;
+        gathering.currentCarry += resource.gather(Math.min(gathering.gatherRate, room));
+        gathering.resourceType = resource.type;
+
+        if (resource.depleted) {
+            this.world.events.emit('resourceDepleted', {
+                entityId: resourceEntity.id,
+                resourceType: resource.type
+            });
+        }
+
+        if (gathering.isFull) {
+            resource.release(worker.id);
+            gathering.state = WorkerState.RETURNING;
+        }
+    }
+
+    /**
+     * Walk a loaded worker to its drop-off. Workers with nowhere to
+     * deliver keep their load and wait.
+     */
+    private updateReturning(worker: Entity): void {
+        const gathering = worker.requireComponent(GatheringComponent);
+        const transform = worker.requireComponent(TransformComponent);
+        const movement = worker.requireComponent(MovementComponent);
+        const resourceType = gathering.resourceType;
+
+        if (!resourceType || gathering.currentCarry === 0) {
+            gathering.state = WorkerState.DEPOSITING;
+            return;
+        }
+
+        // Keep heading to the chosen drop-off while it stays valid
+        let dropOff = gathering.dropOffId === null ? undefined : this.world.getEntity(gathering.dropOffId);
+        if (!dropOff || !this.isValidDropOff(worker, dropOff, resourceType)) {
+            dropOff = this.findNearestDropOff(worker, resourceType);
+            gathering.dropOffId = dropOff?.id ?? null;
+            movement.stop();
+            if (!dropOff) return;
+        }
+
+        const target = dropOff.requireComponent(TransformComponent).position;
+        const dx = target.x - transform.position.x;
+        const dz = target.z - transform.position.z;
+
+        if (dx * dx + dz * dz > DROP_OFF_RANGE * DROP_OFF_RANGE) {
+            if (!movement.isMoving) {
+                movement.setTarget(new THREE.Vector3(target.x, transform.position.y, target.z));
             }
+            return;
         }
 
-        if (nearestResource) {
-            gathering.targetResourceId = nearestResource.id;
-            const resourceTransform = nearestResource.getComponent(TransformComponent.TYPE) as TransformComponent;
-            movement.targetPosition.copy(resourceTransform.position);
-            movement.isMoving = true;
+        movement.stop();
+        gathering.state = WorkerState.DEPOSITING;
+    }
+
+    /**
+     * Hand the load to the worker's owner (loads of unowned workers are
+     * lost), then head back to the remembered node
+     */
+    private updateDepositing(worker: Entity): void {
+        const gathering = worker.requireComponent(GatheringComponent);
+        const resourceType = gathering.resourceType;
+        const amount = gathering.currentCarry;
+        const owner = this.players.find(worker.getComponent(OwnerComponent)?.playerId);
+
+        gathering.currentCarry = 0;
+        gathering.resourceType = null;
+        gathering.dropOffId = null;
+
+        if (resourceType && amount > 0 && owner) {
+            this.ledger.deposit(owner.id, { [resourceType]: amount }, 'gather');
+            this.world.events.emit('resourcesDeposited', {
+                entityId: worker.id,
+                resourceType,
+                amount,
+                playerId: owner.id,
+                totals: { ...owner.resources }
+            });
+        }
+
+        if (gathering.targetResourceId === null) {
+            gathering.state = WorkerState.IDLE;
+            return;
         }
+
+        // The remembered node may have been removed while the worker was away
+        gathering.state = WorkerState.MOVING_TO_RESOURCE;
+        this.resolveTarget(worker, resourceType);
     }
 
-    private updateResourceUI(): void {
-        const goldEl = document.getElementById('gold-amount');
-        const woodEl = document.getElementById('wood-amount');
+    /**
+     * The worker's node, switching to the nearest node of the same type if
+     * it ran out or is gone. Workers with nothing left to gather deliver
+     * what they carry and go idle.
+     * @param fallbackType Type to look for if the node was removed
+     */
+    private resolveTarget(worker: Entity, fallbackType: ResourceKind | null = null): Entity | null {
+        const gathering = worker.requireComponent(GatheringComponent);
+        const target = gathering.targetResourceId === null ? undefined : this.world.getEntity(gathering.targetResourceId);
+        const resource = target?.getComponent(ResourceComponent);
+
+        if (target && resource && !resource.depleted && target.hasComponent(TransformComponent)) {
+            return target;
+        }
+
+        resource?.release(worker.id);
+        const type = resource?.type ?? fallbackType;
+        const replacement = type === null ? null : this.findNearestResource(worker, type, false, SEARCH_RADIUS);
+        if (replacement) {
+            this.sendToResource(worker, replacement);
+            return replacement;
+        }
+
+        gathering.targetResourceId = null;
+        gathering.state = gathering.currentCarry > 0 ? WorkerState.RETURNING : WorkerState.IDLE;
+        worker.requireComponent(MovementComponent).stop();
+        return null;
+    }
+
+    private sendToResource(worker: Entity, resource: Entity): void {
+        worker.requireComponent(GatheringComponent).assign(resource.id);
+        worker.requireComponent(MovementComponent).setTarget(resource.requireComponent(TransformComponent).position);
+    }
+
+    private inGatherRange(worker: Entity, resource: Entity): boolean {
+        const position = worker.requireComponent(TransformComponent).position;
+        return position.distanceTo(resource.requireComponent(TransformComponent).position) < GATHER_RANGE;
+    }
+
+    /**
+     * Nearest non-depleted node within a radius, preferring nodes with a
+     * free gatherer slot
+     * @param type Only nodes of this resource type; null for any
+     * @param requireRoom Skip nodes without a free slot instead of falling back to them
+     */
+    private findNearestResource(worker: Entity, type: ResourceKind | null, requireRoom: boolean, radius: number): Entity | null {
+        const position = worker.requireComponent(TransformComponent).position;
+        const matches = (candidate: Entity, needsRoom: boolean) => {
+            const resource = candidate.getComponent(ResourceComponent);
+            return resource !== undefined
+                && !resource.depleted
+                && (type === null || resource.type === type)
+                && (!needsRoom || resource.hasRoom);
+        };
+
+        const free = this.world.spatial.nearest(position.x, position.z, candidate => matches(candidate, true), radius);
+        if (free || requireRoom) return free;
+        return this.world.spatial.nearest(position.x, position.z, candidate => matches(candidate, false), radius);
+    }
+
+    /**
+     * Drop slots and queue places of workers that were ordered elsewhere,
+     * stopped or removed
+     */
+    private pruneSlots(): void {
+        for (const node of this.world.queryEntities(ResourceComponent)) {
+            const resource = node.requireComponent(ResourceComponent);
+            const isAt = (workerId: EntityId, state: WorkerState) => {
+                const gathering = this.world.getEntity(workerId)?.getComponent(GatheringComponent);
+                return gathering?.targetResourceId === node.id && gathering.state === state;
+            };
+
+            resource.gatherers = resource.gatherers.filter(id => isAt(id, WorkerState.GATHERING));
+            resource.queue = resource.queue.filter(id => isAt(id, WorkerState.QUEUED));
+        }
+    }
+
+    private findNearestDropOff(worker: Entity, resourceType: ResourceKind): Entity | undefined {
+        const position = worker.requireComponent(TransformComponent).position;
+        const dropOff = this.world.spatial.nearest(
+            position.x,
+            position.z,
+            candidate => this.isValidDropOff(worker, candidate, resourceType)
+        );
+        return dropOff ?? undefined;
+    }
 
-        if (goldEl) goldEl.textContent = this.gameResources.gold.toString();
-        if (woodEl) woodEl.textContent = this.gameResources.wood.toString();
+    /**
+     * A finished building with the same owner as the worker that accepts
+     * the resource. Unowned workers and drop-offs never match.
+     */
+    private isValidDropOff(worker: Entity, dropOff: Entity, resourceType: ResourceKind): boolean {
+        const accepts = dropOff.getComponent(DropOffComponent)?.acceptsType(resourceType) ?? false;
+        const finished = dropOff.getComponent(BuildingComponent)?.isConstructed ?? true;
+        const dropOffOwner = dropOff.getComponent(OwnerComponent);
+        const workerOwner = worker.getComponent(OwnerComponent);
+        const sameOwner = !!dropOffOwner && !!workerOwner && dropOffOwner.playerId === workerOwner.playerId;
+        return accepts && finished && sameOwner && dropOff.enabled;
     }
 
     init(): void {
         console.log('ResourceGatheringSystem initialized');
-        this.updateResourceUI();
     }
 
     cleanup(): void {
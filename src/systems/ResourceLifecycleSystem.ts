@@ -0,0 +1,58 @@
+import { System } from '../ecs/System';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { ResourceTypeRegistry } from '../simulation/ResourceTypes';
+
+/**
+ * Seconds a depleted node without regrowth stays (collapsing) before it is removed
+ */
+export const DEPLETED_REMOVAL_DELAY = 2;
+
+/**
+ * ResourceLifecycleSystem handles depleted resource nodes. Nodes whose
+ * type has a regrowth rule stay (as a stump or bare bush) and grow back
+ * after the rule's delay; all others are removed shortly after running out.
+ */
+export class ResourceLifecycleSystem implements System {
+    readonly name = 'ResourceLifecycleSystem';
+    requiredComponents = [ResourceComponent];
+    // Nodes emptied this tick start their countdown straight away
+    runAfter = ['ResourceGatheringSystem'];
+    enabled = true;
+    priority = 0;
+
+    private world: World;
+    private resourceTypes: ResourceTypeRegistry;
+
+    constructor(world: World, resourceTypes: ResourceTypeRegistry) {
+        this.world = world;
+        this.resourceTypes = resourceTypes;
+    }
+
+    update(deltaTime: number, entities: readonly Entity[]): void {
+        for (const node of entities) {
+            const resource = node.requireComponent(ResourceComponent);
+            if (!resource.depleted) continue;
+
+            resource.depletedTime += deltaTime;
+            const regrowth = this.resourceTypes.has(resource.type)
+                ? this.resourceTypes.get(resource.type).regrowth
+                : undefined;
+
+            if (!regrowth) {
+                if (resource.depletedTime >= DEPLETED_REMOVAL_DELAY) {
+                    this.world.destroyEntity(node.id);
+                }
+                continue;
+            }
+
+            if (resource.depletedTime >= regrowth.delay && resource.regrow(regrowth.rate * deltaTime)) {
+                this.world.events.emit('resourceRegrown', {
+                    entityId: node.id,
+                    resourceType: resource.type
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import * as THREE from 'three';
+import { System, SystemPhase } from '../ecs/System';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { RenderableComponent } from '../ecs/components/RenderableComponent';
+
+const PIP_RADIUS = 0.15;
+const PIP_SPACING = 0.4;
+/** Height of the pips above the top of the node's visual */
+const PIP_CLEARANCE = 0.5;
+
+/**
+ * ResourceSlotIndicatorSystem shows a row of pips above every resource
+ * node, one per gatherer slot: lit while taken, dark while free, and
+ * orange while workers are queued for the node
+ */
+export class ResourceSlotIndicatorSystem implements System {
+  readonly name = 'ResourceSlotIndicatorSystem';
+  requiredComponents = [ResourceComponent, RenderableComponent];
+  phase = SystemPhase.RENDER;
+  enabled = true;
+  priority = 0;
+
+  private scene: THREE.Object3D;
+  private indicators: Map<EntityId, THREE.Group> = new Map();
+  private geometry = new THREE.SphereGeometry(PIP_RADIUS, 8, 8);
+  private freeMaterial = new THREE.MeshBasicMaterial({ color: 0x444444 });
+  private takenMaterial = new THREE.MeshBasicMaterial({ color: 0xffeb3b });
+  private queuedMaterial = new THREE.MeshBasicMaterial({ color: 0xff9800 });
+
+  constructor(world: World, scene: THREE.Object3D) {
+    this.scene = scene;
+    world.on('entityDestroyed', (entity) => this.removeIndicator(entity.id));
+  }
+
+  update(_deltaTime: number, entities: readonly Entity[]): void {
+    for (const entity of entities) {
+      const resource = entity.requireComponent(ResourceComponent);
+      const indicator = this.getIndicator(entity, resource.maxGatherers);
+
+      indicator.visible = !resource.depleted;
+      const taken = resource.queue.length > 0 ? this.queuedMaterial : this.takenMaterial;
+      indicator.children.forEach((pip, slot) => {
+        (pip as THREE.Mesh).material = slot < resource.gatherers.length ? taken : this.freeMaterial;
+      });
+    }
+  }
+
+  private getIndicator(entity: Entity, slots: number): THREE.Group {
+    let indicator = this.indicators.get(entity.id);
+    if (indicator && indicator.children.length === slots) return indicator;
+
+    this.removeIndicator(entity.id);
+    indicator = new THREE.Group();
+    for (let slot = 0; slot < slots; slot++) {
+      const pip = new THREE.Mesh(this.geometry, this.freeMaterial);
+      pip.position.x = (slot - (slots - 1) / 2) * PIP_SPACING;
+      indicator.add(pip);
+    }
+
+    // Nodes never move, so the row is placed once above the visual
+    const bounds = new THREE.Box3().setFromObject(entity.requireComponent(RenderableComponent).mesh);
+    const center = bounds.getCenter(new THREE.Vector3());
+    indicator.position.set(center.x, bounds.max.y + PIP_CLEARANCE, center.z);
+
+    this.scene.add(indicator);
+    this.indicators.set(entity.id, indicator);
+    return indicator;
+  }
+
+  private removeIndicator(id: EntityId): void {
+    const indicator = this.indicators.get(id);
+    if (indicator) {
+      this.scene.remove(indicator);
+      this.indicators.delete(id);
+    }
+  }
+}
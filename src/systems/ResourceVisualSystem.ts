@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+import { System, SystemPhase } from '../ecs/System';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+import { disposeObject, RenderableComponent } from '../ecs/components/RenderableComponent';
+import { ResourceComponent } from '../ecs/components/ResourceComponent';
+import { PrefabComponent } from '../ecs/components/PrefabComponent';
+import { PrefabRegistry } from '../factories/PrefabRegistry';
+import { createVisualObject } from '../factories/PrefabVisuals';
+
+/** Scale of a node's mesh just before it runs out */
+const MIN_SCALE = 0.5;
+/** Seconds a depleted node's mesh takes to sink into its remains */
+const COLLAPSE_SECONDS = 1;
+
+interface NodeVisualState {
+  /** Collapse progress in [0, 1] */
+  collapse: number;
+  /** Stump or rubble shown while the node is depleted */
+  remains: THREE.Object3D | null;
+}
+
+/**
+ * ResourceVisualSystem shrinks resource nodes as they are gathered, makes
+ * depleted nodes collapse into their remains (the prefab's depleted parts,
+ * e.g. a stump) and grows them back while they regrow.
+ *
+ * Remains are purely visual: the node keeps its entity (and id, slots and
+ * orders) while depleted, and this system adds a standalone mesh for the
+ * remains instead of swapping the entity for a remains prefab. It only
+ * keeps state for depleted nodes; the state is dropped as soon as a node
+ * is full again or destroyed.
+ */
+export class ResourceVisualSystem implements System {
+  readonly name = 'ResourceVisualSystem';
+  requiredComponents = [ResourceComponent, TransformComponent, RenderableComponent];
+  phase = SystemPhase.RENDER;
+  // Adjusts the height RenderSyncSystem sets
+  runAfter = ['RenderSyncSystem'];
+  enabled = true;
+  priority = 0;
+
+  private scene: THREE.Object3D;
+  private prefabs: PrefabRegistry;
+  private states: Map<EntityId, NodeVisualState> = new Map();
+  private unsubscribe: () => void;
+
+  constructor(world: World, scene: THREE.Object3D, prefabs: PrefabRegistry) {
+    this.scene = scene;
+    this.prefabs = prefabs;
+    this.unsubscribe = world.on('entityDestroyed', (entity) => this.removeState(entity.id));
+  }
+
+  update(deltaTime: number, entities: readonly Entity[]): void {
+    for (const entity of entities) {
+      const resource = entity.requireComponent(ResourceComponent);
+      const transform = entity.requireComponent(TransformComponent);
+      const renderable = entity.requireComponent(RenderableComponent);
+      const mesh = renderable.mesh;
+      const ratio = resource.maxAmount > 0 ? resource.amount / resource.maxAmount : 0;
+
+      if (!resource.depleted) {
+        // Full again (or never ran out): nothing to remember
+        this.removeState(entity.id);
+        const scale = MIN_SCALE + (1 - MIN_SCALE) * ratio;
+        mesh.scale.setScalar(scale);
+        mesh.visible = renderable.visible;
+      } else {
+        let state = this.states.get(entity.id);
+        if (!state) {
+          state = { collapse: 0, remains: null };
+          this.states.set(entity.id, state);
+        }
+        if (!state.remains) {
+          state.remains = this.createRemains(entity, transform);
+        }
+
+        if (resource.amount > 0) {
+          // Growing back from the remains
+          mesh.scale.setScalar(ratio);
+          mesh.visible = renderable.visible;
+        } else {
+          state.collapse = Math.min(1, state.collapse + deltaTime / COLLAPSE_SECONDS);
+          mesh.scale.set(MIN_SCALE, MIN_SCALE * (1 - state.collapse), MIN_SCALE);
+          mesh.visible = renderable.visible && state.collapse < 1;
+        }
+      }
+
+      // Origins sit at the prefab's base height; keep the base on the ground
+      mesh.position.y = transform.position.y * mesh.scale.y;
+    }
+  }
+
+  private createRemains(entity: Entity, transform: TransformComponent): THREE.Object3D {
+    const prefabId = entity.getComponent(PrefabComponent)?.prefabId;
+    const parts = prefabId && this.prefabs.has(prefabId) ? this.prefabs.get(prefabId).visual?.depleted : undefined;
+
+    const remains = parts ? createVisualObject({ parts }) : new THREE.Group();
+    remains.position.set(transform.position.x, 0, transform.position.z);
+    this.scene.add(remains);
+    return remains;
+  }
+
+  private removeState(id: EntityId): void {
+    const state = this.states.get(id);
+    if (!state) return;
+
+    if (state.remains) {
+      disposeObject(state.remains);
+    }
+    this.states.delete(id);
+  }
+
+  cleanup(): void {
+    this.unsubscribe();
+    for (const id of [...this.states.keys()]) {
+      this.removeState(id);
+    }
+  }
+}
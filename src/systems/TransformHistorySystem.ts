@@ -0,0 +1,22 @@
+import { System, SystemPhase } from '../ecs/System';
+import { Entity } from '../ecs/Entity';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+
+/**
+ * TransformHistorySystem records each entity's position at the start of a
+ * simulation tick so rendering can interpolate towards the new position
+ */
+export class TransformHistorySystem implements System {
+  readonly name = 'TransformHistorySystem';
+  requiredComponents = [TransformComponent];
+  phase = SystemPhase.INPUT;
+  enabled = true;
+  // Must run before anything in the tick can move an entity
+  priority = -100;
+
+  update(_deltaTime: number, entities: readonly Entity[]): void {
+    for (const entity of entities) {
+      entity.requireComponent(TransformComponent).storePrevious();
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import * as THREE from 'three';
+import { World } from '../ecs/World';
+import { Entity } from '../ecs/Entity';
+import { EntityId } from '../ecs/EntityId';
+import { Component } from '../ecs/Component';
+import { ComponentRegistry } from '../ecs/ComponentRegistry';
+import { PrefabComponent } from '../ecs/components/PrefabComponent';
+import { TransformComponent } from '../ecs/components/TransformComponent';
+
+/** Most entities listed at once; narrow the filter to see others */
+const MAX_LISTED = 150;
+
+/**
+ * EntityInspector is a debug panel listing World entities (filterable by
+ * component) and showing the selected entity's component fields live.
+ * Number, text and boolean fields and vector components can be edited and
+ * apply immediately. While open, clicking an object in the scene selects
+ * its entity.
+ * Edits bypass the command pipeline, so they break replays and desync
+ * multiplayer matches.
+ */
+export class EntityInspector {
+    public readonly element: HTMLDivElement;
+
+    private world: World;
+    private scene: THREE.Scene;
+    private camera: THREE.Camera;
+    private renderer: THREE.WebGLRenderer;
+    private raycaster: THREE.Raycaster = new THREE.Raycaster();
+    private pointer: THREE.Vector2 = new THREE.Vector2();
+
+    private filterSelect: HTMLSelectElement;
+    private entityList: HTMLDivElement;
+    private details: HTMLDivElement;
+    private visible: boolean = false;
+    private selectedId: EntityId | null = null;
+    /** Re-read the shown fields from their components */
+    private fieldRefreshers: Array<() => void> = [];
+    private lastRefresh: number = 0;
+
+    constructor(world: World, scene: THREE.Scene, camera: THREE.Camera, renderer: THREE.WebGLRenderer) {
+        this.world = world;
+        this.scene = scene;
+        this.camera = camera;
+        this.renderer = renderer;
+
+        this.element = document.createElement('div');
+        this.element.style.cssText = `
+            display: none;
+            margin-top: 10px;
+            padding-top: 10px;
+            border-top: 1px solid #444;
+        `;
+
+        this.filterSelect = document.createElement('select');
+        this.filterSelect.style.cssText = 'font: inherit; margin-bottom: 6px;';
+        this.filterSelect.addEventListener('change', () => this.refreshList());
+        this.element.appendChild(this.filterSelect);
+
+        this.entityList = document.createElement('div');
+        this.entityList.style.cssText = 'max-height: 140px; overflow-y: auto; margin-bottom: 8px;';
+        this.element.appendChild(this.entityList);
+
+        this.details = document.createElement('div');
+        this.details.style.cssText = 'max-height: 320px; overflow-y: auto;';
+        this.element.appendChild(this.details);
+
+        this.renderer.domElement.addEventListener('click', (event) => {
+            if (this.visible) this.pickFromScene(event);
+        });
+    }
+
+    /**
+     * Show or hide the inspector
+     */
+    toggle(): void {
+        this.visible = !this.visible;
+        this.element.style.display = this.visible ? 'block' : 'none';
+        if (this.visible) {
+            this.refreshFilterOptions();
+            this.refreshList();
+            this.renderDetails();
+        }
+    }
+
+    /**
+     * Select an entity and show its components
+     */
+    focus(id: EntityId): void {
+        this.selectedId = id;
+        this.refreshList();
+        this.renderDetails();
+    }
+
+    /**
+     * Refresh the list and field values (call once per displayed frame)
+     */
+    update(): void {
+        if (!this.visible) return;
+
+        const time = performance.now();
+        if (time - this.lastRefresh < 250) return;
+        this.lastRefresh = time;
+
+        this.refreshList();
+        if (this.selectedId !== null && !this.world.isAlive(this.selectedId)) {
+            this.selectedId = null;
+            this.renderDetails();
+        } else {
+            this.refreshValues();
+        }
+    }
+
+    private refreshFilterOptions(): void {
+        const current = this.filterSelect.value;
+        this.filterSelect.innerHTML = '<option value="">All entities</option>';
+        for (const key of ComponentRegistry.getKeys().sort()) {
+            const option = document.createElement('option');
+            option.value = key;
+            option.textContent = `With ${key}`;
+            this.filterSelect.appendChild(option);
+        }
+        this.filterSelect.value = current;
+    }
+
+    private refreshList(): void {
+        const filterClass = ComponentRegistry.get(this.filterSelect.value);
+        const entities = filterClass
+            ? this.world.queryEntities(filterClass)
+            : this.world.getAllEntities();
+
+        this.entityList.innerHTML = '';
+        for (const entity of entities.slice(0, MAX_LISTED)) {
+            const row = document.createElement('div');
+            row.textContent = `#${entity.id} ${this.describe(entity)}`;
+            row.style.cssText = `
+                cursor: pointer;
+                padding: 1px 4px;
+                color: ${entity.enabled ? 'white' : '#888'};
+                background: ${entity.id === this.selectedId ? 'rgba(76, 175, 80, 0.4)' : 'transparent'};
+            `;
+            row.addEventListener('click', () => this.focus(entity.id));
+            this.entityList.appendChild(row);
+        }
+
+        if (entities.length > MAX_LISTED) {
+            const more = document.createElement('div');
+            more.style.color = '#888';
+            more.textContent = `... ${entities.length - MAX_LISTED} more`;
+            this.entityList.appendChild(more);
+        }
+    }
+
+    private describe(entity: Entity): string {
+        const prefab = entity.getComponent(PrefabComponent);
+        return prefab ? prefab.prefabId : entity.getComponentTypes().join(', ');
+    }
+
+    /**
+     * Rebuild the field editors of the selected entity
+     */
+    private renderDetails(): void {
+        this.details.innerHTML = '';
+        this.fieldRefreshers = [];
+        const entity = this.selectedId !== null ? this.world.getEntity(this.selectedId) : undefined;
+        if (!entity) {
+            this.details.textContent = 'Click an entity in the list or the scene';
+            return;
+        }
+
+        for (const component of entity.getAllComponents()) {
+            const section = document.createElement('div');
+            section.style.marginBottom = '6px';
+
+            const title = document.createElement('div');
+            title.textContent = component.componentType;
+            title.style.cssText = 'color: #4CAF50; font-weight: bold;';
+            section.appendChild(title);
+
+            for (const [field, value] of Object.entries(component)) {
+                section.appendChild(this.createField(component, field, value));
+            }
+            this.details.appendChild(section);
+        }
+    }
+
+    private createField(component: Component, field: string, value: unknown): HTMLElement {
+        const row = document.createElement('div');
+        row.style.cssText = 'display: flex; gap: 4px; align-items: center; margin-left: 8px;';
+
+        const label = document.createElement('span');
+        label.textContent = field;
+        label.style.cssText = 'min-width: 120px; color: #aaa;';
+        row.appendChild(label);
+
+        const target = component as unknown as Record<string, unknown>;
+
+        if (value instanceof THREE.Vector3) {
+            for (const axis of ['x', 'y', 'z'] as const) {
+                row.appendChild(this.createInput(
+                    () => (target[field] as THREE.Vector3)[axis],
+                    (next) => this.writeAxis(component, field, axis, Number(next)),
+                    'number'
+                ));
+            }
+        } else if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+            const kind = typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'checkbox' : 'text';
+            row.appendChild(this.createInput(
+                () => target[field] as number | string | boolean,
+                (next) => { target[field] = next; },
+                kind
+            ));
+        } else {
+            // Scene objects and nested data are shown but not editable
+            const text = document.createElement('span');
+            text.textContent = this.formatReadOnly(value);
+            row.appendChild(text);
+            this.fieldRefreshers.push(() => {
+                text.textContent = this.formatReadOnly(target[field]);
+            });
+        }
+
+        return row;
+    }
+
+    /**
+     * Set one axis of a vector field. Positions go through setPosition so
+     * the World's spatial index sees the move.
+     */
+    private writeAxis(component: Component, field: string, axis: 'x' | 'y' | 'z', value: number): void {
+        if (component instanceof TransformComponent && field === 'position') {
+            const position = component.position.clone();
+            position[axis] = value;
+            component.setPosition(position.x, position.y, position.z);
+            return;
+        }
+        const vector = (component as unknown as Record<string, unknown>)[field] as THREE.Vector3;
+        vector[axis] = value;
+    }
+
+    private createInput(
+        read: () => number | string | boolean,
+        write: (value: number | string | boolean) => void,
+        kind: 'number' | 'text' | 'checkbox'
+    ): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = kind;
+        input.style.cssText = `font: inherit; width: ${kind === 'checkbox' ? 'auto' : '64px'};`;
+        if (kind === 'number') input.step = 'any';
+
+        const show = () => {
+            const value = read();
+            if (kind === 'checkbox') {
+                input.checked = Boolean(value);
+            } else if (document.activeElement !== input) {
+                // Leave the field alone while it is being edited
+                input.value = typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : String(value);
+            }
+        };
+        show();
+
+        input.addEventListener('change', () => {
+            if (kind === 'checkbox') {
+                write(input.checked);
+            } else if (kind === 'number') {
+                const parsed = Number(input.value);
+                if (Number.isFinite(parsed)) write(parsed);
+            } else {
+                write(input.value);
+            }
+            show();
+        });
+
+        this.fieldRefreshers.push(show);
+        return input;
+    }
+
+    /**
+     * Update every field editor with the component's current values
+     */
+    private refreshValues(): void {
+        for (const refresh of this.fieldRefreshers) {
+            refresh();
+        }
+    }
+
+    private formatReadOnly(value: unknown): string {
+        if (value === null || value === undefined) return String(value);
+        if (value instanceof THREE.Object3D) return `[${value.type}]`;
+        try {
+            const json = JSON.stringify(value);
+            return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+        } catch {
+            return '[object]';
+        }
+    }
+
+    /**
+     * Select the entity whose mesh is under the cursor
+     */
+    private pickFromScene(event: MouseEvent): void {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+        this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+
+        for (const hit of this.raycaster.intersectObjects(this.scene.children, true)) {
+            // Entity ids live on the root object of a prefab's visual
+            let object: THREE.Object3D | null = hit.object;
+            while (object && object.userData.entityId === undefined) {
+                object = object.parent;
+            }
+            if (object && this.world.isAlive(object.userData.entityId)) {
+                this.focus(object.userData.entityId);
+                return;
+            }
+        }
+    }
+}
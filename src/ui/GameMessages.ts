@@ -0,0 +1,83 @@
+import { World } from '../ecs/World';
+
+/**
+ * GameMessages shows gameplay events as short-lived lines in the HUD.
+ * Events that concern another player are left out.
+ */
+export class GameMessages {
+    /** Player this client controls */
+    localPlayerId: number = 0;
+    private container: HTMLElement | null;
+    private maxMessages: number;
+    private lifetimeMs: number;
+
+    constructor(world: World, maxMessages: number = 5, lifetimeMs: number = 4000) {
+        this.container = document.getElementById('message-log');
+        this.maxMessages = maxMessages;
+        this.lifetimeMs = lifetimeMs;
+
+        // Tick-end delivery keeps DOM work out of the systems' update loop
+        const events = world.events;
+        events.onTickEnd('unitQueued', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`${event.unitType} queued (${event.queueLength} in queue)`);
+        });
+        events.onTickEnd('unitTrained', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`${event.unitType} trained`);
+        });
+        events.onTickEnd('resourcesDeposited', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`+${event.amount} ${event.resourceType}`);
+        });
+        events.onTickEnd('buildingPlaced', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`${event.buildingType} placed`);
+        });
+        events.onTickEnd('buildingConstructed', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`${event.buildingType} finished`);
+        });
+        events.onTickEnd('buildingDemolished', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(event.refunded ? `${event.buildingType} cancelled, cost refunded` : `${event.buildingType} demolished`);
+        });
+        events.onTickEnd('insufficientResources', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`Not enough resources for ${event.itemType}`, 'warning');
+        });
+        events.onTickEnd('supplyBlocked', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(`Supply blocked (${event.used}/${event.max}): build more houses to train ${event.unitType}`, 'warning');
+        });
+        events.onTickEnd('resourceDepleted', (event) => {
+            this.show(`A ${event.resourceType} source ran out`);
+        });
+        events.onTickEnd('commandRejected', (event) => {
+            if (this.concernsOther(event.playerId)) return;
+            this.show(event.reason, 'warning');
+        });
+    }
+
+    private concernsOther(playerId: number | null): boolean {
+        return playerId !== null && playerId !== this.localPlayerId;
+    }
+
+    /**
+     * Add a message line that fades out after a while
+     */
+    show(text: string, kind: 'info' | 'warning' = 'info'): void {
+        if (!this.container) return;
+
+        const line = document.createElement('div');
+        line.className = `game-message ${kind}`;
+        line.textContent = text;
+        this.container.appendChild(line);
+
+        while (this.container.childElementCount > this.maxMessages) {
+            this.container.firstElementChild?.remove();
+        }
+
+        setTimeout(() => line.remove(), this.lifetimeMs);
+    }
+}
@@ -0,0 +1,87 @@
+import { ResourceAmounts } from '../ecs/GameEvents';
+import { GameSimulation } from '../simulation/GameSimulation';
+import { LedgerEntry } from '../simulation/ResourceLedger';
+
+/** History entries listed, newest first */
+const HISTORY_SHOWN = 8;
+
+const ENTRY_SIGNS: Record<LedgerEntry['kind'], string> = {
+    income: '+',
+    expense: '-',
+    refund: '+'
+};
+
+/**
+ * LedgerPanel shows the local player's whole-game resource totals
+ * (income, spent, refunded and currently reserved) and their most recent
+ * ledger entries in the ledger panel of index.html
+ */
+export class LedgerPanel {
+    private simulation: GameSimulation;
+    private totalsEl: HTMLTableElement | null;
+    private historyEl: HTMLElement | null;
+    private lastTick: number = -1;
+    /** Player whose ledger is shown */
+    localPlayerId: number = 0;
+
+    constructor(simulation: GameSimulation) {
+        this.simulation = simulation;
+        this.totalsEl = document.getElementById('ledger-totals') as HTMLTableElement | null;
+        this.historyEl = document.getElementById('ledger-history');
+    }
+
+    update(): void {
+        // The ledger only changes during ticks
+        const tick = this.simulation.getTick();
+        if (tick === this.lastTick) return;
+        this.lastTick = tick;
+
+        if (!this.simulation.players.has(this.localPlayerId)) return;
+        this.renderTotals();
+        this.renderHistory();
+    }
+
+    private renderTotals(): void {
+        if (!this.totalsEl) return;
+
+        const ledger = this.simulation.ledger;
+        const totals = ledger.getTotals(this.localPlayerId);
+        const rows: [string, ResourceAmounts][] = [
+            ['Income', totals.income],
+            ['Spent', totals.expense],
+            ['Refunded', totals.refund],
+            ['Reserved', ledger.getReserved(this.localPlayerId)]
+        ];
+        const types = this.simulation.resourceTypes.getAll();
+
+        this.totalsEl.innerHTML = '';
+        const header = this.totalsEl.insertRow();
+        header.insertCell().textContent = '';
+        for (const type of types) {
+            const cell = header.insertCell();
+            cell.textContent = type.icon;
+            cell.title = type.name;
+        }
+        for (const [label, amounts] of rows) {
+            const row = this.totalsEl.insertRow();
+            row.insertCell().textContent = label;
+            for (const type of types) {
+                row.insertCell().textContent = String(amounts[type.id] ?? 0);
+            }
+        }
+    }
+
+    private renderHistory(): void {
+        if (!this.historyEl) return;
+
+        const entries = this.simulation.ledger.getHistory(this.localPlayerId).slice(-HISTORY_SHOWN).reverse();
+        this.historyEl.innerHTML = '';
+        for (const entry of entries) {
+            const item = document.createElement('li');
+            item.className = `ledger-${entry.kind}`;
+            const amounts = this.simulation.resourceTypes.format(entry.amounts, 'nothing');
+            item.textContent = `${ENTRY_SIGNS[entry.kind]} ${amounts} (${entry.reason})`;
+            this.historyEl.appendChild(item);
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { MAPS } from '../simulation/Maps';
+import { LobbyPlayer, ServerMessage } from '../multiplayer/Protocol';
+import { LockstepSession } from '../multiplayer/LockstepSession';
+import { WebSocketTransport } from '../multiplayer/WebSocketTransport';
+
+/**
+ * Everything needed to set up a match once the host starts it
+ */
+export interface MatchStart {
+    transport: WebSocketTransport;
+    playerId: number;
+    message: Extract<ServerMessage, { type: 'start' }>;
+}
+
+/**
+ * LobbyMenu wires the multiplayer panel in index.html: connecting to a
+ * relay, choosing a map, readying up and starting the match. During the
+ * match it shows the session's status.
+ */
+export class LobbyMenu {
+    private onMatchStart: (start: MatchStart) => void;
+    private transport: WebSocketTransport | null = null;
+    private playerId: number | null = null;
+    private hostId: number | null = null;
+    private ready: boolean = false;
+
+    private urlInput: HTMLInputElement | null;
+    private nameInput: HTMLInputElement | null;
+    private mapSelect: HTMLSelectElement | null;
+    private playerList: HTMLElement | null;
+    private statusEl: HTMLElement | null;
+    private readyButton: HTMLButtonElement | null;
+
+    constructor(onMatchStart: (start: MatchStart) => void) {
+        this.onMatchStart = onMatchStart;
+        this.urlInput = document.getElementById('lobby-url') as HTMLInputElement | null;
+        this.nameInput = document.getElementById('lobby-name') as HTMLInputElement | null;
+        this.mapSelect = document.getElementById('lobby-map') as HTMLSelectElement | null;
+        this.playerList = document.getElementById('lobby-players');
+        this.statusEl = document.getElementById('lobby-status');
+        this.readyButton = document.getElementById('lobby-ready') as HTMLButtonElement | null;
+        this.setupUI();
+    }
+
+    /**
+     * Show the state of a running match (call once per frame)
+     */
+    update(session: LockstepSession): void {
+        if (session.desync) {
+            this.setStatus(`Desync at tick ${session.desync.tick} - the match state has diverged`);
+        } else if (session.stalled) {
+            this.setStatus('Waiting for other players...');
+        } else if (session.departed.size > 0) {
+            this.setStatus(`Player ${Array.from(session.departed).join(', ')} left the match`);
+        } else {
+            this.setStatus(`Playing as player ${session.playerId}`);
+        }
+    }
+
+    private setupUI(): void {
+        if (this.mapSelect) {
+            for (const map of MAPS) {
+                const option = document.createElement('option');
+                option.value = map.id;
+                option.textContent = `${map.name} (${map.maxPlayers} players)`;
+                this.mapSelect.appendChild(option);
+            }
+            this.mapSelect.addEventListener('change', () => {
+                this.transport?.send({ type: 'selectMap', mapId: this.mapSelect!.value });
+            });
+        }
+
+        document.getElementById('lobby-connect')?.addEventListener('click', () => this.connect());
+
+        this.readyButton?.addEventListener('click', () => {
+            this.ready = !this.ready;
+            this.transport?.send({ type: 'ready', ready: this.ready });
+        });
+
+        document.getElementById('lobby-start')?.addEventListener('click', () => {
+            this.transport?.send({ type: 'start' });
+        });
+    }
+
+    private async connect(): Promise<void> {
+        if (this.transport) return;
+
+        const url = this.urlInput?.value || 'ws://localhost:8787';
+        this.setStatus(`Connecting to ${url}...`);
+
+        try {
+            this.transport = await WebSocketTransport.connect(url);
+        } catch (error) {
+            this.setStatus((error as Error).message);
+            return;
+        }
+
+        this.transport.onMessage(message => this.handleMessage(message));
+        this.transport.onClose(() => {
+            this.transport = null;
+            this.setStatus('Disconnected from relay');
+        });
+        this.transport.send({ type: 'join', name: this.nameInput?.value ?? '' });
+    }
+
+    private handleMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case 'welcome':
+                this.playerId = message.playerId;
+                break;
+
+            case 'lobby':
+                this.hostId = message.hostId;
+                if (this.mapSelect) {
+                    this.mapSelect.value = message.mapId;
+                    this.mapSelect.disabled = this.hostId !== this.playerId;
+                }
+                this.renderPlayers(message.players);
+                this.setStatus(this.hostId === this.playerId
+                    ? 'You are the host: start when everyone is ready'
+                    : 'Waiting for the host to start');
+                break;
+
+            case 'start':
+                if (this.transport && this.playerId !== null) {
+                    document.body.classList.add('multiplayer-mode');
+                    this.onMatchStart({ transport: this.transport, playerId: this.playerId, message });
+                }
+                break;
+
+            case 'matchEnded':
+                // Back in the lobby; the relay has cleared everyone's ready flag
+                document.body.classList.remove('multiplayer-mode');
+                this.ready = false;
+                this.setStatus('The match ended: too few players are left');
+                break;
+
+            case 'error':
+                this.setStatus(message.message);
+                break;
+        }
+    }
+
+    private renderPlayers(players: LobbyPlayer[]): void {
+        if (!this.playerList) return;
+
+        this.playerList.innerHTML = '';
+        for (const player of players) {
+            const item = document.createElement('li');
+            const tags = [
+                player.playerId === this.hostId ? 'host' : null,
+                player.playerId === this.playerId ? 'you' : null
+            ].filter(Boolean).join(', ');
+            item.textContent = `${player.playerId}. ${player.name}${tags ? ` (${tags})` : ''} - ${player.ready ? 'ready' : 'not ready'}`;
+            this.playerList.appendChild(item);
+        }
+
+        if (this.readyButton) {
+            this.readyButton.textContent = this.ready ? 'Not Ready' : 'Ready';
+        }
+    }
+
+    private setStatus(text: string): void {
+        if (this.statusEl) this.statusEl.textContent = text;
+    }
+}
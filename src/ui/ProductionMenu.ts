@@ -0,0 +1,29 @@
+import { CommandSink } from '../simulation/Commands';
+
+/**
+ * ProductionMenu turns the production buttons in index.html into commands
+ */
+export class ProductionMenu {
+    private commands: CommandSink;
+
+    constructor(commands: CommandSink) {
+        this.commands = commands;
+        this.setupUI();
+    }
+
+    private setupUI(): void {
+        const trainBtn = document.getElementById('train-worker');
+        if (trainBtn) {
+            trainBtn.addEventListener('click', () => {
+                this.commands.enqueue({ type: 'train', buildingId: null, unitType: 'worker' });
+            });
+        }
+
+        const cancelBtn = document.getElementById('cancel-training');
+        if (cancelBtn) {
+            cancelBtn.addEventListener('click', () => {
+                this.commands.enqueue({ type: 'cancel', buildingId: null });
+            });
+        }
+    }
+}
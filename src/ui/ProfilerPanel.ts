@@ -0,0 +1,195 @@
+import { World } from '../ecs/World';
+import { SystemPhase } from '../ecs/System';
+import { SystemProfiler } from '../ecs/Profiler';
+
+const PHASE_COLORS: Record<SystemPhase, string> = {
+    [SystemPhase.INPUT]: '#64B5F6',
+    [SystemPhase.SIMULATION]: '#4CAF50',
+    [SystemPhase.POST_SIMULATION]: '#FFB74C',
+    [SystemPhase.RENDER]: '#BA68C8'
+};
+
+/** Frame budget drawn as a reference line on the graph (60 FPS) */
+const BUDGET_MS = 1000 / 60;
+
+/**
+ * ProfilerPanel shows per-system timings, world counters, allocation hints
+ * and a rolling graph of time spent per phase. It is hidden by default and
+ * only profiles while visible.
+ */
+export class ProfilerPanel {
+    public readonly element: HTMLDivElement;
+
+    private world: World;
+    private profiler: SystemProfiler;
+    private table: HTMLTableSectionElement;
+    private stats: HTMLDivElement;
+    private graph: HTMLCanvasElement;
+    private visible: boolean = false;
+    private lastTableRefresh: number = 0;
+
+    constructor(world: World, profiler: SystemProfiler = new SystemProfiler()) {
+        this.world = world;
+        this.profiler = profiler;
+
+        this.element = document.createElement('div');
+        this.element.style.cssText = `
+            display: none;
+            margin-top: 10px;
+            padding-top: 10px;
+            border-top: 1px solid #444;
+        `;
+
+        const tableElement = document.createElement('table');
+        tableElement.style.cssText = 'width: 100%; border-collapse: collapse; font-size: 11px;';
+        tableElement.innerHTML = `
+            <thead><tr style="color: #aaa; text-align: right;">
+                <th style="text-align: left;">System</th><th>last</th><th>avg</th><th>p95</th><th>max</th>
+            </tr></thead>
+        `;
+        this.table = document.createElement('tbody');
+        tableElement.appendChild(this.table);
+        this.element.appendChild(tableElement);
+
+        this.graph = document.createElement('canvas');
+        this.graph.width = 460;
+        this.graph.height = 80;
+        this.graph.style.cssText = 'display: block; margin-top: 8px; background: rgba(255, 255, 255, 0.05);';
+        this.element.appendChild(this.graph);
+
+        this.stats = document.createElement('div');
+        this.stats.style.cssText = 'margin-top: 6px; color: #ccc; white-space: pre;';
+        this.element.appendChild(this.stats);
+
+        const buttons = document.createElement('div');
+        buttons.style.cssText = 'margin-top: 6px; display: flex; gap: 6px;';
+        buttons.appendChild(this.createButton('Reset', () => this.profiler.reset()));
+        buttons.appendChild(this.createButton('Dump JSON', () => this.downloadDump()));
+        this.element.appendChild(buttons);
+    }
+
+    /**
+     * Show or hide the panel; profiling runs only while it is shown
+     */
+    toggle(): void {
+        this.visible = !this.visible;
+        this.element.style.display = this.visible ? 'block' : 'none';
+
+        const systemManager = this.world.getSystemManager();
+        if (this.visible) {
+            this.profiler.reset();
+            systemManager.setProfiler(this.profiler);
+        } else {
+            systemManager.setProfiler(null);
+        }
+    }
+
+    /**
+     * Close the profiler frame and redraw (call once per displayed frame)
+     */
+    update(frameSeconds: number): void {
+        if (!this.visible) return;
+
+        this.profiler.endFrame(frameSeconds);
+        this.drawGraph();
+
+        // The table is read by humans; a few refreshes per second suffice
+        const time = performance.now();
+        if (time - this.lastTableRefresh > 250) {
+            this.lastTableRefresh = time;
+            this.refreshTable();
+            this.refreshStats();
+        }
+    }
+
+    private refreshTable(): void {
+        const format = (ms: number) => ms.toFixed(2);
+        this.table.innerHTML = '';
+
+        for (const timing of this.profiler.getTimings()) {
+            const row = document.createElement('tr');
+            row.style.textAlign = 'right';
+            row.innerHTML = `
+                <td style="text-align: left; color: ${PHASE_COLORS[timing.phase]};">${timing.name}</td>
+                <td>${format(timing.last)}</td>
+                <td>${format(timing.average)}</td>
+                <td>${format(timing.p95)}</td>
+                <td>${format(timing.max)}</td>
+            `;
+            this.table.appendChild(row);
+        }
+    }
+
+    private refreshStats(): void {
+        const stats = this.world.getStats();
+        const allocation = this.profiler.getAllocationHints();
+        const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+        const lines = [
+            `Entities: ${stats.entityCount} (${stats.enabledEntityCount} enabled)`,
+            `Systems: ${stats.systemCount}  Queries: ${stats.queryCount}`
+        ];
+        if (allocation.heapUsed !== null) {
+            const growth = allocation.growthPerSecond !== null
+                ? `, +${megabytes(allocation.growthPerSecond)} MB/s`
+                : '';
+            lines.push(`Heap: ${megabytes(allocation.heapUsed)} MB${growth}, ${allocation.collections} GCs`);
+        } else {
+            lines.push('Heap: not exposed by this browser');
+        }
+        this.stats.textContent = lines.join('\n');
+    }
+
+    /**
+     * Stacked bars of phase time per frame, newest on the right
+     */
+    private drawGraph(): void {
+        const context = this.graph.getContext('2d');
+        if (!context) return;
+
+        const { width, height } = this.graph;
+        const frames = this.profiler.getFrames();
+        const barWidth = width / this.profiler.windowSize;
+        const scale = height / (BUDGET_MS * 2);
+
+        context.clearRect(0, 0, width, height);
+
+        frames.forEach((frame, index) => {
+            const x = width - (frames.length - index) * barWidth;
+            let y = height;
+            for (const [phase, milliseconds] of Object.entries(frame.phases) as [SystemPhase, number][]) {
+                const barHeight = milliseconds * scale;
+                context.fillStyle = PHASE_COLORS[phase];
+                context.fillRect(x, y - barHeight, Math.max(1, barWidth - 0.5), barHeight);
+                y -= barHeight;
+            }
+        });
+
+        context.strokeStyle = '#F44336';
+        context.beginPath();
+        context.moveTo(0, height - BUDGET_MS * scale);
+        context.lineTo(width, height - BUDGET_MS * scale);
+        context.stroke();
+    }
+
+    private downloadDump(): void {
+        const dump = this.profiler.dump(this.world.getStats());
+        const blob = new Blob([JSON.stringify(dump, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `rts-profile-${Date.now()}.json`;
+        link.click();
+
+        URL.revokeObjectURL(url);
+    }
+
+    private createButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.style.cssText = 'font: inherit; padding: 2px 8px; cursor: pointer;';
+        button.addEventListener('click', onClick);
+        return button;
+    }
+}
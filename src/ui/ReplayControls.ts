@@ -0,0 +1,128 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+import { ReplayRecorder } from '../replay/ReplayRecorder';
+import { ReplayPlayer } from '../replay/ReplayPlayer';
+import { exportReplayFile, importReplayFile } from '../replay/ReplayFile';
+import { FreeCameraSystem } from '../input/FreeCameraSystem';
+import { GameMessages } from './GameMessages';
+
+/**
+ * ReplayControls wires the replay buttons and the playback panel in
+ * index.html. Loading a replay stops recording and switches the page into
+ * replay mode until it is reloaded.
+ */
+export class ReplayControls {
+    private simulation: GameSimulation;
+    private recorder: ReplayRecorder;
+    private freeCamera: FreeCameraSystem;
+    private messages: GameMessages;
+    private player: ReplayPlayer | null = null;
+
+    private panel: HTMLElement | null;
+    private playButton: HTMLButtonElement | null;
+    private seekSlider: HTMLInputElement | null;
+    private tickLabel: HTMLElement | null;
+    private seeking: boolean = false;
+
+    constructor(simulation: GameSimulation, recorder: ReplayRecorder, freeCamera: FreeCameraSystem, messages: GameMessages) {
+        this.simulation = simulation;
+        this.recorder = recorder;
+        this.freeCamera = freeCamera;
+        this.messages = messages;
+        this.panel = document.getElementById('replay-controls');
+        this.playButton = document.getElementById('replay-play') as HTMLButtonElement | null;
+        this.seekSlider = document.getElementById('replay-seek') as HTMLInputElement | null;
+        this.tickLabel = document.getElementById('replay-tick');
+        this.setupUI();
+    }
+
+    /**
+     * The replay being watched, if any
+     */
+    get activePlayer(): ReplayPlayer | null {
+        return this.player;
+    }
+
+    /**
+     * Refresh the playback panel (call once per frame)
+     */
+    update(): void {
+        if (!this.player) return;
+
+        if (this.seekSlider && !this.seeking) {
+            this.seekSlider.value = this.player.currentTick.toString();
+        }
+        if (this.tickLabel) {
+            const seconds = (tick: number) => (tick / this.simulation.tickRate).toFixed(1);
+            this.tickLabel.textContent = `${seconds(this.player.currentTick)}s / ${seconds(this.player.endTick)}s`;
+        }
+        if (this.playButton) {
+            this.playButton.textContent = this.player.paused || this.player.finished ? 'Play' : 'Pause';
+        }
+    }
+
+    private setupUI(): void {
+        document.getElementById('export-replay')?.addEventListener('click', () => {
+            const replay = this.recorder.getReplay();
+            if (replay) {
+                exportReplayFile(replay, `rts-replay-tick${replay.endTick}.json`);
+            }
+        });
+
+        const fileInput = document.getElementById('import-replay-file') as HTMLInputElement | null;
+        document.getElementById('import-replay')?.addEventListener('click', () => fileInput?.click());
+        fileInput?.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            fileInput.value = '';
+            if (!file) return;
+
+            try {
+                this.watch(new ReplayPlayer(this.simulation, await importReplayFile(file)));
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                this.messages.show(`Failed to load replay: ${reason}`, 'warning');
+            }
+        });
+
+        this.playButton?.addEventListener('click', () => {
+            if (!this.player) return;
+            if (this.player.finished) {
+                this.player.restart();
+                this.player.paused = false;
+            } else {
+                this.player.paused = !this.player.paused;
+            }
+        });
+
+        document.getElementById('replay-restart')?.addEventListener('click', () => this.player?.restart());
+
+        const speedSelect = document.getElementById('replay-speed') as HTMLSelectElement | null;
+        speedSelect?.addEventListener('change', () => {
+            if (this.player) {
+                this.player.speed = Number(speedSelect.value);
+            }
+        });
+
+        // Seek once the slider is released; re-simulating on every input
+        // event would stall on long replays
+        this.seekSlider?.addEventListener('input', () => { this.seeking = true; });
+        this.seekSlider?.addEventListener('change', () => {
+            this.seeking = false;
+            if (this.player && this.seekSlider) {
+                this.player.seek(Number(this.seekSlider.value));
+            }
+        });
+    }
+
+    private watch(player: ReplayPlayer): void {
+        this.recorder.stopRecording();
+        this.player = player;
+        this.freeCamera.enabled = true;
+
+        if (this.seekSlider) {
+            this.seekSlider.min = player.startTick.toString();
+            this.seekSlider.max = player.endTick.toString();
+        }
+        document.body.classList.add('replay-mode');
+        this.panel?.removeAttribute('hidden');
+    }
+}
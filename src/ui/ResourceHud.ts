@@ -0,0 +1,62 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+
+/**
+ * ResourceHud mirrors the local player's resources into the HUD in
+ * index.html, with one entry per resource type plus used/max supply
+ */
+export class ResourceHud {
+    private simulation: GameSimulation;
+    private amountEls: Map<string, HTMLElement> = new Map();
+    private supplyEl: HTMLElement | null = null;
+    /** Player whose resources are shown */
+    localPlayerId: number = 0;
+
+    constructor(simulation: GameSimulation) {
+        this.simulation = simulation;
+
+        const container = document.getElementById('resource-display');
+        if (!container) return;
+
+        container.innerHTML = '';
+        for (const type of simulation.resourceTypes.getAll()) {
+            this.amountEls.set(type.id, this.addItem(container, type.icon, type.name, type.color));
+        }
+        this.supplyEl = this.addItem(container, '👥', 'Supply', '#ffffff');
+    }
+
+    update(): void {
+        const player = this.simulation.players.find(this.localPlayerId);
+        if (!player) return;
+        for (const [id, element] of this.amountEls) {
+            element.textContent = (player.resources[id] ?? 0).toString();
+        }
+
+        if (this.supplyEl) {
+            const supply = this.simulation.getSupply(player.id);
+            this.supplyEl.textContent = `${supply.used}/${supply.max}`;
+            this.supplyEl.classList.toggle('capped', supply.used >= supply.max);
+        }
+    }
+
+    private addItem(container: HTMLElement, iconText: string, name: string, color: string): HTMLElement {
+        const item = document.createElement('div');
+        item.className = 'resource-item';
+
+        const icon = document.createElement('span');
+        icon.className = 'resource-icon';
+        icon.textContent = iconText;
+
+        const label = document.createElement('span');
+        label.className = 'resource-label';
+        label.style.color = color;
+        label.textContent = `${name}:`;
+
+        const amount = document.createElement('span');
+        amount.className = 'resource-amount';
+        amount.textContent = '0';
+
+        item.append(icon, label, amount);
+        container.appendChild(item);
+        return amount;
+    }
+}
@@ -0,0 +1,88 @@
+import { GameSimulation } from '../simulation/GameSimulation';
+import { createSnapshot, restoreSnapshot } from '../persistence/WorldSnapshot';
+import { SaveSlots } from '../persistence/SaveSlots';
+import { exportSnapshotFile, importSnapshotFile } from '../persistence/SnapshotFile';
+import { GameMessages } from './GameMessages';
+
+/**
+ * SaveMenu wires the save/load panel in index.html to the persistence
+ * layer and reports the outcome of each action in the message log
+ */
+export class SaveMenu {
+    private simulation: GameSimulation;
+    private messages: GameMessages;
+    private slots: SaveSlots;
+    private slotSelect: HTMLSelectElement | null;
+
+    constructor(simulation: GameSimulation, messages: GameMessages, slots: SaveSlots = new SaveSlots()) {
+        this.simulation = simulation;
+        this.messages = messages;
+        this.slots = slots;
+        this.slotSelect = document.getElementById('save-slot') as HTMLSelectElement | null;
+        this.setupUI();
+        this.refreshSlotLabels();
+    }
+
+    private get currentSlot(): string {
+        return this.slotSelect?.value ?? '1';
+    }
+
+    private setupUI(): void {
+        document.getElementById('save-game')?.addEventListener('click', () => this.save());
+        document.getElementById('load-game')?.addEventListener('click', () => this.load());
+        document.getElementById('export-game')?.addEventListener('click', () => {
+            exportSnapshotFile(createSnapshot(this.simulation), `rts-save-tick${this.simulation.getTick()}.json`);
+        });
+
+        const fileInput = document.getElementById('import-file') as HTMLInputElement | null;
+        document.getElementById('import-game')?.addEventListener('click', () => fileInput?.click());
+        fileInput?.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            fileInput.value = '';
+            if (!file) return;
+
+            try {
+                restoreSnapshot(this.simulation, await importSnapshotFile(file));
+                this.messages.show(`Imported save from ${file.name}`);
+            } catch (error) {
+                this.messages.show(`Failed to import save: ${describeError(error)}`, 'warning');
+            }
+        });
+    }
+
+    private save(): void {
+        this.slots.save(this.currentSlot, createSnapshot(this.simulation));
+        this.refreshSlotLabels();
+        this.messages.show(`Saved game to slot ${this.currentSlot}`);
+    }
+
+    private load(): void {
+        try {
+            const snapshot = this.slots.load(this.currentSlot);
+            if (!snapshot) {
+                this.messages.show(`Slot ${this.currentSlot} is empty`, 'warning');
+                return;
+            }
+            restoreSnapshot(this.simulation, snapshot);
+            this.messages.show(`Loaded game from slot ${this.currentSlot}`);
+        } catch (error) {
+            this.messages.show(`Failed to load save: ${describeError(error)}`, 'warning');
+        }
+    }
+
+    private refreshSlotLabels(): void {
+        if (!this.slotSelect) return;
+
+        const saved = new Map(this.slots.list().map(info => [info.slot, info]));
+        for (const option of Array.from(this.slotSelect.options)) {
+            const info = saved.get(option.value);
+            option.textContent = info
+                ? `Slot ${option.value} - ${new Date(info.savedAt).toLocaleString()}`
+                : `Slot ${option.value} (empty)`;
+        }
+    }
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}